@@ -0,0 +1,33 @@
+"use client";
+
+import { useState } from "react";
+import { deleteReview } from "./review/actions";
+
+interface AdminDeleteReviewButtonProps {
+  reviewId: string;
+}
+
+export function AdminDeleteReviewButton({ reviewId }: AdminDeleteReviewButtonProps) {
+  const [isPending, setIsPending] = useState(false);
+
+  const handleDelete = async () => {
+    const reason = prompt("Remove this review? Enter a reason for the audit log (optional):");
+    if (reason === null) return;
+
+    setIsPending(true);
+    try {
+      await deleteReview(reviewId, reason);
+    } catch (error) {
+      console.error("Failed to remove review:", error);
+      alert("Failed to remove review");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <button onClick={handleDelete} disabled={isPending} className="admin-link admin-link-danger">
+      {isPending ? "..." : "Remove"}
+    </button>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useState } from "react";
+import { deleteTheme } from "./review/actions";
+
+interface AdminDeleteThemeButtonProps {
+  themeId: string;
+  themeName: string;
+}
+
+export function AdminDeleteThemeButton({ themeId, themeName }: AdminDeleteThemeButtonProps) {
+  const [isPending, setIsPending] = useState(false);
+
+  const handleDelete = async () => {
+    const reason = prompt(`Delete "${themeName}"? Enter a reason for the audit log (optional):`);
+    if (reason === null) return;
+
+    setIsPending(true);
+    try {
+      await deleteTheme(themeId, reason);
+    } catch (error) {
+      console.error("Failed to delete:", error);
+      alert("Failed to delete theme");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <button onClick={handleDelete} disabled={isPending} className="admin-link admin-link-danger">
+      {isPending ? "..." : "Delete"}
+    </button>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useState } from "react";
+import { recomputeThemeColors } from "./review/actions";
+
+export function RecomputeColorsButton() {
+  const [isPending, setIsPending] = useState(false);
+
+  const handleClick = async () => {
+    if (!confirm("Recompute contrast ratios and search colors for every theme? This can take a while.")) return;
+
+    setIsPending(true);
+    try {
+      const { updated } = await recomputeThemeColors();
+      alert(`Updated ${updated} theme(s).`);
+    } catch (error) {
+      console.error("Failed to recompute theme colors:", error);
+      alert("Failed to recompute theme colors");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <button onClick={handleClick} disabled={isPending} className="btn btn-ghost">
+      {isPending ? "Recomputing..." : "Recompute Colors"}
+    </button>
+  );
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { AdminAccessError, requireAdmin } from "@/lib/auth/admin";
+import {
+  ANALYTICS_SERIES,
+  getAnalyticsReport,
+  getSeriesCsvRows,
+  parseAnalyticsParams,
+  toCsv,
+  type AnalyticsSeries,
+} from "@/lib/analytics";
+
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  try {
+    await requireAdmin(supabase, "admin");
+  } catch (error) {
+    if (!(error instanceof AdminAccessError)) throw error;
+    return new NextResponse(error.status === 401 ? "Unauthorized" : "Forbidden", {
+      status: error.status,
+    });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const series = searchParams.get("series") ?? "downloads";
+  if (!ANALYTICS_SERIES.includes(series as AnalyticsSeries)) {
+    return new NextResponse(`series must be one of: ${ANALYTICS_SERIES.join(", ")}`, {
+      status: 400,
+    });
+  }
+
+  const { days, bucket } = parseAnalyticsParams({
+    range: searchParams.get("range") ?? undefined,
+    bucket: searchParams.get("bucket") ?? undefined,
+  });
+  const report = await getAnalyticsReport(supabase, { days, bucket });
+  const fileName = `mira-${series}-${days}d-${bucket}.csv`;
+
+  return new NextResponse(toCsv(getSeriesCsvRows(report, series as AnalyticsSeries)), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,107 @@
+import { createClient } from "@/lib/supabase/server";
+import Link from "next/link";
+import { requireAdminPage } from "@/lib/auth/admin";
+import {
+  ANALYTICS_RANGES,
+  getAnalyticsReport,
+  parseAnalyticsParams,
+  type AnalyticsSeries,
+} from "@/lib/analytics";
+import { BarChart } from "@/components/bar-chart";
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{ range?: string; bucket?: string }>;
+}
+
+export default async function AnalyticsPage({ searchParams }: AnalyticsPageProps) {
+  const supabase = await createClient();
+  await requireAdminPage(supabase, "admin");
+
+  const { days, bucket } = parseAnalyticsParams(await searchParams);
+  const report = await getAnalyticsReport(supabase, { days, bucket });
+
+  const exportHref = (series: AnalyticsSeries) =>
+    `/admin/analytics/export?series=${series}&range=${days}&bucket=${bucket}`;
+
+  return (
+    <main className="section page-section">
+      <div className="container">
+        <div className="review-header">
+          <h1 className="animate-fade-up">Analytics</h1>
+          <Link href="/admin" className="btn btn-ghost">
+            Back to Admin
+          </Link>
+        </div>
+
+        <form method="get" className="admin-filters animate-fade-up" style={{ animationDelay: "40ms" }}>
+          <label>
+            Window
+            <select name="range" defaultValue={String(days)} className="filter-select">
+              {ANALYTICS_RANGES.map((range) => (
+                <option key={range} value={range}>
+                  Last {range} days
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Group by
+            <select name="bucket" defaultValue={bucket} className="filter-select">
+              <option value="day">Day</option>
+              <option value="week">Week</option>
+            </select>
+          </label>
+          <button type="submit" className="btn btn-primary">
+            Update
+          </button>
+        </form>
+
+        <div className="analytics-grid animate-fade-up" style={{ animationDelay: "80ms" }}>
+          <BarChart title="Downloads" points={report.downloads} exportHref={exportHref("downloads")} />
+          <BarChart
+            title="New submissions"
+            points={report.submissions}
+            exportHref={exportHref("submissions")}
+          />
+          <BarChart title="Approvals" points={report.approvals} exportHref={exportHref("approvals")} />
+          <BarChart title="New users" points={report.newUsers} exportHref={exportHref("users")} />
+        </div>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "120ms" }}>
+          <div className="analytics-chart-header">
+            <h2>Top Themes</h2>
+            <a href={exportHref("top-themes")} className="admin-link">
+              CSV
+            </a>
+          </div>
+          {report.topThemes.length === 0 ? (
+            <p className="muted-note">No downloads in this window.</p>
+          ) : (
+            <div className="admin-table-container">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Theme</th>
+                    <th>Downloads</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.topThemes.map((theme) => (
+                    <tr key={theme.id}>
+                      <td>
+                        <Link href={`/themes/${theme.id}`} className="admin-link">
+                          {theme.name}
+                        </Link>
+                      </td>
+                      <td>{theme.downloads}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,207 @@
+import { createClient } from "@/lib/supabase/server";
+import { requireAdminPage } from "@/lib/auth/admin";
+import Link from "next/link";
+import { MODERATION_ACTIONS, formatModerationAction, isModerationAction } from "@/lib/themes/audit";
+import type { ModerationAuditEntry, Profile } from "@/lib/themes/types";
+
+interface AuditPageProps {
+  searchParams: Promise<{ admin?: string; theme?: string; action?: string }>;
+}
+
+const AUDIT_PAGE_SIZE = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatDetails(entry: ModerationAuditEntry): string | null {
+  const details = entry.details;
+  if (!details) return null;
+
+  if (Array.isArray(details.from_tags) && Array.isArray(details.to_tags)) {
+    return `${details.from_tags.join(", ") || "none"} → ${details.to_tags.join(", ") || "none"}`;
+  }
+  if (typeof details.rating === "number") {
+    return `${details.rating}★${typeof details.body === "string" ? `: ${details.body}` : ""}`;
+  }
+  if (typeof details.username === "string") {
+    return `@${details.username}`;
+  }
+  if (typeof details.target_type === "string") {
+    return `${details.target_type} reports`;
+  }
+  if (typeof details.body === "string") {
+    return details.body;
+  }
+  if (typeof details.version === "string") {
+    return `v${details.version}`;
+  }
+
+  return null;
+}
+
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+  const supabase = await createClient();
+  await requireAdminPage(supabase, "admin");
+
+  const filters = await searchParams;
+  const themeFilter = filters.theme?.trim() || "";
+  const actionFilter = filters.action && isModerationAction(filters.action) ? filters.action : "";
+
+  let query = supabase
+    .from("moderation_audit_log")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(AUDIT_PAGE_SIZE);
+
+  if (filters.admin) {
+    query = query.eq("actor_id", filters.admin);
+  }
+  if (actionFilter) {
+    query = query.eq("action", actionFilter);
+  }
+  if (themeFilter) {
+    // Row links filter by id; the text box searches the name snapshot
+    query = UUID_PATTERN.test(themeFilter)
+      ? query.eq("theme_id", themeFilter)
+      : query.ilike("theme_name", `%${themeFilter}%`);
+  }
+
+  const { data: entryRows } = await query;
+  const entries = (entryRows || []) as ModerationAuditEntry[];
+
+  const { data: adminRows } = await supabase
+    .from("profiles")
+    .select("*")
+    // Same staff rule as requireAdmin: a moderator/admin role or the older flag
+    .or("role.in.(admin,moderator),is_admin.is.true")
+    .order("username");
+
+  const admins = (adminRows || []) as Profile[];
+
+  // Fetch profiles separately to avoid FK relationship issues
+  const actorMap = new Map(admins.map((admin) => [admin.id, admin]));
+  const missingActorIds = Array.from(new Set(entries.map((e) => e.actor_id))).filter(
+    (id) => !actorMap.has(id)
+  );
+  if (missingActorIds.length > 0) {
+    const { data: actorRows } = await supabase.from("profiles").select("*").in("id", missingActorIds);
+    for (const actor of (actorRows || []) as Profile[]) {
+      actorMap.set(actor.id, actor);
+    }
+  }
+
+  const actorName = (id: string) => {
+    const actor = actorMap.get(id);
+    return actor?.display_name || actor?.username || "Unknown";
+  };
+
+  return (
+    <main className="section page-section">
+      <div className="container">
+        <div className="review-header">
+          <h1 className="animate-fade-up">Audit Log</h1>
+          <Link href="/admin" className="btn btn-ghost">
+            Back to Admin
+          </Link>
+        </div>
+
+        <form method="get" className="admin-filters animate-fade-up" style={{ animationDelay: "40ms" }}>
+          <label>
+            Admin
+            <select name="admin" defaultValue={filters.admin || ""} className="filter-select">
+              <option value="">All admins</option>
+              {admins.map((admin) => (
+                <option key={admin.id} value={admin.id}>
+                  {admin.display_name || admin.username || admin.id}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Action
+            <select name="action" defaultValue={actionFilter} className="filter-select">
+              <option value="">All actions</option>
+              {MODERATION_ACTIONS.map((action) => (
+                <option key={action.id} value={action.id}>
+                  {action.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Theme
+            <input
+              type="text"
+              name="theme"
+              defaultValue={themeFilter}
+              placeholder="Name or ID"
+              className="form-input"
+            />
+          </label>
+          <button type="submit" className="btn btn-primary">
+            Filter
+          </button>
+          <Link href="/admin/audit" className="btn btn-ghost">
+            Clear
+          </Link>
+        </form>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "80ms" }}>
+          {entries.length === 0 ? (
+            <div className="review-empty">
+              <p>No moderation actions match these filters.</p>
+            </div>
+          ) : (
+            <div className="admin-table-container">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>Admin</th>
+                    <th>Action</th>
+                    <th>Theme</th>
+                    <th>Status</th>
+                    <th>Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => {
+                    const details = formatDetails(entry);
+
+                    return (
+                      <tr key={entry.id}>
+                        <td>{new Date(entry.created_at).toLocaleString()}</td>
+                        <td>
+                          <Link href={`/admin/audit?admin=${entry.actor_id}`} className="admin-link">
+                            {actorName(entry.actor_id)}
+                          </Link>
+                        </td>
+                        <td>
+                          {formatModerationAction(entry.action)}
+                          {details && <div className="audit-details">{details}</div>}
+                        </td>
+                        <td>
+                          {entry.theme_id ? (
+                            <Link href={`/admin/audit?theme=${entry.theme_id}`} className="admin-link">
+                              {entry.theme_name || entry.theme_id}
+                            </Link>
+                          ) : (
+                            entry.theme_name
+                          )}
+                        </td>
+                        <td className="audit-status-change">
+                          {entry.from_status || entry.to_status
+                            ? `${entry.from_status || "—"} → ${entry.to_status || "deleted"}`
+                            : "—"}
+                        </td>
+                        <td>{entry.reason || "—"}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -1,24 +1,14 @@
 import { createClient } from "@/lib/supabase/server";
-import { redirect } from "next/navigation";
+import { hasRole, requireAdminPage } from "@/lib/auth/admin";
+import { getTotalDownloads } from "@/lib/analytics";
 import Link from "next/link";
+import { AdminDeleteThemeButton } from "./AdminDeleteThemeButton";
+import { RecomputeColorsButton } from "./RecomputeColorsButton";
 
 export default async function AdminPage() {
   const supabase = await createClient();
-  const { data: { user } } = await supabase.auth.getUser();
-
-  if (!user) {
-    redirect("/login");
-  }
-
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", user.id)
-    .single();
-
-  if (!profile?.is_admin) {
-    redirect("/");
-  }
+  const { role } = await requireAdminPage(supabase);
+  const isAdmin = hasRole(role, "admin");
 
   // Fetch stats
   const { count: totalThemes } = await supabase
@@ -29,15 +19,19 @@ export default async function AdminPage() {
     .from("profiles")
     .select("*", { count: "exact", head: true });
 
-  const { count: totalDownloads } = await supabase
-    .from("themes")
-    .select("download_count", { count: "exact", head: true });
+  // Sum per-theme counters; a head count here would only count themes
+  const totalDownloads = await getTotalDownloads(supabase);
 
   const { count: pendingThemes } = await supabase
     .from("themes")
     .select("*", { count: "exact", head: true })
     .eq("status", "under_review");
 
+  const { count: openReports } = await supabase
+    .from("reports")
+    .select("*", { count: "exact", head: true })
+    .eq("status", "open");
+
   const { data: recentThemes } = await supabase
     .from("themes")
     .select("id, name, author_name, created_at, download_count")
@@ -56,6 +50,26 @@ export default async function AdminPage() {
               <span className="admin-badge">{pendingThemes}</span>
             )}
           </Link>
+          <Link href="/admin/reports" className="btn btn-ghost admin-review-btn">
+            Reports
+            {openReports && openReports > 0 && (
+              <span className="admin-badge">{openReports}</span>
+            )}
+          </Link>
+          <Link href="/admin/reviews" className="btn btn-ghost">
+            Reviews
+          </Link>
+          {isAdmin && (
+            <Link href="/admin/analytics" className="btn btn-ghost">
+              Analytics
+            </Link>
+          )}
+          {isAdmin && (
+            <Link href="/admin/audit" className="btn btn-ghost">
+              Audit Log
+            </Link>
+          )}
+          {isAdmin && <RecomputeColorsButton />}
         </div>
         
         <div className="admin-stats animate-fade-up" style={{ animationDelay: "80ms" }}>
@@ -97,6 +111,9 @@ export default async function AdminPage() {
                       <a href={`/themes/${theme.id}`} className="admin-link">
                         View
                       </a>
+                      {isAdmin && (
+                        <AdminDeleteThemeButton themeId={theme.id} themeName={theme.name} />
+                      )}
                     </td>
                   </tr>
                 ))}
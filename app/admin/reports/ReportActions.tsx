@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import type { ReportTargetType } from "@/lib/themes/reports";
+import { dismissReports, removeComment, suspendUser, unpublishTheme } from "../review/actions";
+
+interface ReportActionsProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  // Author of the reported theme or comment, or the reported user
+  ownerId: string | null;
+  canSuspend: boolean;
+  isResolved: boolean;
+}
+
+export function ReportActions({
+  targetType,
+  targetId,
+  ownerId,
+  canSuspend,
+  isResolved,
+}: ReportActionsProps) {
+  const [isPending, setIsPending] = useState(false);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setIsPending(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${label}:`, error);
+      alert(error instanceof Error ? error.message : `Failed to ${label}`);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const askReason = (question: string) =>
+    prompt(`${question} Enter a reason for the audit log (optional):`);
+
+  return (
+    <div className="report-actions">
+      {!isResolved && (
+        <button
+          onClick={() => run("dismiss reports", () => dismissReports(targetType, targetId))}
+          disabled={isPending}
+          className="admin-link"
+        >
+          Dismiss
+        </button>
+      )}
+      {targetType === "theme" && !isResolved && (
+        <button
+          onClick={() => {
+            const reason = askReason("Unpublish this theme and send it back to review?");
+            if (reason !== null) run("unpublish theme", () => unpublishTheme(targetId, reason));
+          }}
+          disabled={isPending}
+          className="admin-link admin-link-danger"
+        >
+          Unpublish
+        </button>
+      )}
+      {targetType === "comment" && !isResolved && (
+        <button
+          onClick={() => {
+            const reason = askReason("Remove this comment?");
+            if (reason !== null) run("remove comment", () => removeComment(targetId, reason));
+          }}
+          disabled={isPending}
+          className="admin-link admin-link-danger"
+        >
+          Remove comment
+        </button>
+      )}
+      {canSuspend && ownerId && (
+        <button
+          onClick={() => {
+            const reason = askReason("Suspend this user? They won't be able to post anything.");
+            if (reason !== null) run("suspend user", () => suspendUser(ownerId, reason));
+          }}
+          disabled={isPending}
+          className="admin-link admin-link-danger"
+        >
+          Suspend {targetType === "user" ? "user" : "author"}
+        </button>
+      )}
+    </div>
+  );
+}
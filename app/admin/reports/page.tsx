@@ -0,0 +1,257 @@
+import { createClient } from "@/lib/supabase/server";
+import { hasRole, requireAdminPage } from "@/lib/auth/admin";
+import Link from "next/link";
+import { REPORT_TARGET_TYPES, isReportTargetType, type ReportTargetType } from "@/lib/themes/reports";
+import type { ContentReport, Profile } from "@/lib/themes/types";
+import { ReportActions } from "./ReportActions";
+
+interface ReportsPageProps {
+  searchParams: Promise<{ status?: string; type?: string }>;
+}
+
+const REPORT_STATUSES = ["open", "dismissed", "actioned"] as const;
+const REPORTS_PAGE_SIZE = 500;
+
+interface ReportGroup {
+  targetType: ReportTargetType;
+  targetId: string;
+  reports: ContentReport[];
+}
+
+export default async function ReportsPage({ searchParams }: ReportsPageProps) {
+  const supabase = await createClient();
+  const { role } = await requireAdminPage(supabase);
+  const canSuspend = hasRole(role, "admin");
+
+  const filters = await searchParams;
+  const status = REPORT_STATUSES.find((s) => s === filters.status) ?? "open";
+  const typeFilter = filters.type && isReportTargetType(filters.type) ? filters.type : "";
+
+  let query = supabase
+    .from("reports")
+    .select("*")
+    .eq("status", status)
+    .order("created_at", { ascending: false })
+    .limit(REPORTS_PAGE_SIZE);
+
+  if (typeFilter) {
+    query = query.eq("target_type", typeFilter);
+  }
+
+  const { data: reportRows } = await query;
+  const reports = (reportRows || []) as ContentReport[];
+
+  // One row per reported item, most reported first
+  const groupMap = new Map<string, ReportGroup>();
+  for (const report of reports) {
+    const key = `${report.target_type}:${report.target_id}`;
+    const group = groupMap.get(key) ?? {
+      targetType: report.target_type,
+      targetId: report.target_id,
+      reports: [],
+    };
+    group.reports.push(report);
+    groupMap.set(key, group);
+  }
+  const groups = Array.from(groupMap.values()).sort((a, b) => b.reports.length - a.reports.length);
+
+  const idsOf = (type: ReportTargetType) =>
+    groups.filter((g) => g.targetType === type).map((g) => g.targetId);
+  const themeIds = idsOf("theme");
+  const commentIds = idsOf("comment");
+
+  const [{ data: themeRows }, { data: commentRows }] = await Promise.all([
+    themeIds.length > 0
+      ? supabase.from("themes").select("id, name, user_id, status").in("id", themeIds)
+      : Promise.resolve({ data: [] }),
+    commentIds.length > 0
+      ? supabase
+          .from("theme_comments")
+          .select("id, theme_id, user_id, body, deleted_at")
+          .in("id", commentIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const themes = new Map(
+    ((themeRows || []) as { id: string; name: string; user_id: string | null; status: string }[]).map(
+      (t) => [t.id, t]
+    )
+  );
+  const comments = new Map(
+    (
+      (commentRows || []) as {
+        id: string;
+        theme_id: string;
+        user_id: string;
+        body: string;
+        deleted_at: string | null;
+      }[]
+    ).map((c) => [c.id, c])
+  );
+
+  const ownerOf = (group: ReportGroup): string | null => {
+    if (group.targetType === "user") return group.targetId;
+    if (group.targetType === "theme") return themes.get(group.targetId)?.user_id ?? null;
+    return comments.get(group.targetId)?.user_id ?? null;
+  };
+
+  // Fetch profiles separately to avoid FK relationship issues
+  const profileIds = Array.from(
+    new Set([
+      ...reports.map((r) => r.reporter_id),
+      ...groups.map(ownerOf).filter((id): id is string => !!id),
+    ])
+  );
+  const { data: profileRows } =
+    profileIds.length > 0
+      ? await supabase.from("profiles").select("*").in("id", profileIds)
+      : { data: [] };
+  const profiles = new Map(((profileRows || []) as Profile[]).map((p) => [p.id, p]));
+
+  const profileName = (id: string | null) => {
+    const profile = id ? profiles.get(id) : undefined;
+    return profile?.display_name || profile?.username || "Unknown";
+  };
+
+  const renderTarget = (group: ReportGroup) => {
+    if (group.targetType === "theme") {
+      const theme = themes.get(group.targetId);
+      if (!theme) return <span className="muted-note">Deleted theme</span>;
+      return (
+        <>
+          <Link href={`/themes/${theme.id}`} className="admin-link">
+            {theme.name}
+          </Link>
+          {theme.status !== "approved" && <div className="audit-details">{theme.status}</div>}
+        </>
+      );
+    }
+
+    if (group.targetType === "comment") {
+      const comment = comments.get(group.targetId);
+      if (!comment) return <span className="muted-note">Deleted comment</span>;
+      return (
+        <>
+          <Link href={`/themes/${comment.theme_id}#comment-${comment.id}`} className="admin-link">
+            Comment by {profileName(comment.user_id)}
+          </Link>
+          <div className="audit-details">
+            {comment.deleted_at ? "Removed" : comment.body.slice(0, 200)}
+          </div>
+        </>
+      );
+    }
+
+    const profile = profiles.get(group.targetId);
+    return profile?.username ? (
+      <Link href={`/profile/${profile.username}`} className="admin-link">
+        @{profile.username}
+      </Link>
+    ) : (
+      <span className="muted-note">Unknown user</span>
+    );
+  };
+
+  return (
+    <main className="section page-section">
+      <div className="container">
+        <div className="review-header">
+          <h1 className="animate-fade-up">Reports</h1>
+          <Link href="/admin" className="btn btn-ghost">
+            Back to Admin
+          </Link>
+        </div>
+
+        <form method="get" className="admin-filters animate-fade-up" style={{ animationDelay: "40ms" }}>
+          <label>
+            Status
+            <select name="status" defaultValue={status} className="filter-select">
+              {REPORT_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s[0].toUpperCase() + s.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Type
+            <select name="type" defaultValue={typeFilter} className="filter-select">
+              <option value="">All types</option>
+              {REPORT_TARGET_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type[0].toUpperCase() + type.slice(1)}s
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="submit" className="btn btn-primary">
+            Filter
+          </button>
+          <Link href="/admin/reports" className="btn btn-ghost">
+            Clear
+          </Link>
+        </form>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "80ms" }}>
+          {groups.length === 0 ? (
+            <div className="review-empty">
+              <p>No {status} reports.</p>
+            </div>
+          ) : (
+            <div className="admin-table-container">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Reported</th>
+                    <th>Owner</th>
+                    <th>Reports</th>
+                    <th>Latest</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map((group) => {
+                    const ownerId = ownerOf(group);
+                    const isSuspended = !!(ownerId && profiles.get(ownerId)?.suspended_at);
+
+                    return (
+                      <tr key={`${group.targetType}:${group.targetId}`}>
+                        <td>
+                          <span className="theme-tag">{group.targetType}</span> {renderTarget(group)}
+                        </td>
+                        <td>
+                          {ownerId ? profileName(ownerId) : "—"}
+                          {isSuspended && <div className="audit-details">Suspended</div>}
+                        </td>
+                        <td>
+                          <ul className="report-reasons">
+                            {group.reports.map((report) => (
+                              <li key={report.id}>
+                                {report.reason}
+                                <span className="audit-details"> — {profileName(report.reporter_id)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                        <td>{new Date(group.reports[0].created_at).toLocaleString()}</td>
+                        <td>
+                          <ReportActions
+                            targetType={group.targetType}
+                            targetId={group.targetId}
+                            ownerId={ownerId}
+                            canSuspend={canSuspend && !isSuspended}
+                            isResolved={status !== "open"}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
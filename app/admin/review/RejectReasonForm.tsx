@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_REJECTION_NOTE_LENGTH,
+  REJECTION_REASONS,
+  type RejectionInput,
+  type RejectionReasonId,
+} from "@/lib/themes/moderation";
+
+interface RejectReasonFormProps {
+  id: string;
+  isPending: boolean;
+  submitLabel?: string;
+  onSubmit: (reason: RejectionInput) => void;
+  onCancel: () => void;
+}
+
+export function RejectReasonForm({
+  id,
+  isPending,
+  submitLabel = "Confirm Reject",
+  onSubmit,
+  onCancel,
+}: RejectReasonFormProps) {
+  const [reasonId, setReasonId] = useState<RejectionReasonId>(REJECTION_REASONS[0].id);
+  const [note, setNote] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ reasonId, note });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="review-reject-form">
+      <label htmlFor={`reject-reason-${id}`}>Reason</label>
+      <select
+        id={`reject-reason-${id}`}
+        value={reasonId}
+        onChange={(e) => setReasonId(e.target.value as RejectionReasonId)}
+        className="filter-select"
+        autoFocus
+      >
+        {REJECTION_REASONS.map((reason) => (
+          <option key={reason.id} value={reason.id}>
+            {reason.label}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={3}
+        maxLength={MAX_REJECTION_NOTE_LENGTH}
+        required={reasonId === "other"}
+        className="form-textarea"
+        placeholder="Optional details for the author"
+      />
+      <div className="review-actions">
+        <button type="submit" disabled={isPending} className="btn btn-danger review-btn">
+          {isPending ? "..." : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isPending}
+          className="btn btn-ghost review-btn"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
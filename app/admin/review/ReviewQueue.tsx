@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import type { RejectionInput } from "@/lib/themes/moderation";
+import { bulkApproveThemes, bulkRejectThemes, type BulkModerationResult } from "./actions";
+import { RejectReasonForm } from "./RejectReasonForm";
+
+interface ReviewQueueProps {
+  items: { id: string; card: ReactNode }[];
+}
+
+// Typing in the reject form or a filter shouldn't trigger shortcuts
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+export function ReviewQueue({ items }: ReviewQueueProps) {
+  const router = useRouter();
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [isPending, setIsPending] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Items drop out of the list once moderated, so ignore stale ids
+  const selectedIds = items.filter((item) => selection.has(item.id)).map((item) => item.id);
+  const allSelected = items.length > 0 && selectedIds.length === items.length;
+  const focused = Math.min(focusedIndex, items.length - 1);
+
+  // Shortcuts act on the selection, or on the focused theme when nothing is selected
+  const targetIds = selectedIds.length > 0 ? selectedIds : items[focused] ? [items[focused].id] : [];
+
+  const toggle = (id: string) => {
+    setSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelection(allSelected ? new Set() : new Set(items.map((item) => item.id)));
+  };
+
+  const moveFocus = (delta: number) => {
+    const next = Math.max(0, Math.min(items.length - 1, focused + delta));
+    setFocusedIndex(next);
+    itemRefs.current[next]?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  };
+
+  const finish = (result: BulkModerationResult) => {
+    if (result.failed.length > 0) {
+      alert(`${result.failed.length} theme(s) could not be updated.`);
+    }
+    setSelection(new Set());
+    setIsRejecting(false);
+    router.refresh();
+  };
+
+  const handleApprove = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    setIsPending(true);
+    try {
+      finish(await bulkApproveThemes(ids));
+    } catch (error) {
+      console.error("Failed to approve:", error);
+      alert("Failed to approve themes");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleReject = async (reason: RejectionInput) => {
+    if (targetIds.length === 0) return;
+    setIsPending(true);
+    try {
+      finish(await bulkRejectThemes(targetIds, reason));
+    } catch (error) {
+      console.error("Failed to reject:", error);
+      alert("Failed to reject themes");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+    if (isPending || isRejecting) return;
+
+    switch (e.key) {
+      case "j":
+        moveFocus(1);
+        break;
+      case "k":
+        moveFocus(-1);
+        break;
+      case "x":
+        if (items[focused]) toggle(items[focused].id);
+        break;
+      case "a":
+        handleApprove(targetIds);
+        break;
+      case "r":
+        if (targetIds.length > 0) setIsRejecting(true);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Re-subscribed every render so the handler always sees current state
+  useEffect(() => {
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  return (
+    <div className="review-queue">
+      <div className="review-bulk-bar">
+        <label className="review-select-all">
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+          {selectedIds.length > 0 ? `${selectedIds.length} selected` : "Select all"}
+        </label>
+        {isRejecting ? (
+          <RejectReasonForm
+            id="bulk"
+            isPending={isPending}
+            submitLabel={`Reject ${targetIds.length}`}
+            onSubmit={handleReject}
+            onCancel={() => setIsRejecting(false)}
+          />
+        ) : (
+          <div className="review-actions">
+            <button
+              onClick={() => handleApprove(selectedIds)}
+              disabled={isPending || selectedIds.length === 0}
+              className="btn btn-success review-btn"
+            >
+              {isPending ? "..." : "Approve selected"}
+            </button>
+            <button
+              onClick={() => setIsRejecting(true)}
+              disabled={isPending || selectedIds.length === 0}
+              className="btn btn-danger review-btn"
+            >
+              Reject selected
+            </button>
+          </div>
+        )}
+        <p className="review-shortcuts">
+          <kbd>j</kbd>/<kbd>k</kbd> move · <kbd>x</kbd> select · <kbd>a</kbd> approve ·{" "}
+          <kbd>r</kbd> reject
+        </p>
+      </div>
+
+      <div className="review-themes">
+        {items.map((item, index) => {
+          const classes = ["review-queue-item"];
+          if (index === focused) classes.push("focused");
+          if (selection.has(item.id)) classes.push("selected");
+
+          return (
+            <div
+              key={item.id}
+              ref={(el) => {
+                itemRefs.current[index] = el;
+              }}
+              className={classes.join(" ")}
+              onClick={() => setFocusedIndex(index)}
+            >
+              <input
+                type="checkbox"
+                checked={selection.has(item.id)}
+                onChange={() => toggle(item.id)}
+                aria-label="Select theme"
+                className="review-queue-checkbox"
+              />
+              {item.card}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
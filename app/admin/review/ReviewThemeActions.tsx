@@ -1,19 +1,28 @@
 "use client";
 
 import { useState } from "react";
-import { approveTheme, rejectTheme } from "./actions";
+import type { RejectionInput } from "@/lib/themes/moderation";
+import { approveRevision, approveTheme, rejectRevision, rejectTheme } from "./actions";
+import { RejectReasonForm } from "./RejectReasonForm";
 
 interface ReviewThemeActionsProps {
   themeId: string;
+  // When set, the buttons act on this pending revision instead of the theme
+  revisionId?: string;
 }
 
-export function ReviewThemeActions({ themeId }: ReviewThemeActionsProps) {
+export function ReviewThemeActions({ themeId, revisionId }: ReviewThemeActionsProps) {
   const [isPending, setIsPending] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
 
   const handleApprove = async () => {
     setIsPending(true);
     try {
-      await approveTheme(themeId);
+      if (revisionId) {
+        await approveRevision(revisionId);
+      } else {
+        await approveTheme(themeId);
+      }
     } catch (error) {
       console.error("Failed to approve:", error);
       alert("Failed to approve theme");
@@ -22,10 +31,15 @@ export function ReviewThemeActions({ themeId }: ReviewThemeActionsProps) {
     }
   };
 
-  const handleReject = async () => {
+  const handleReject = async (reason: RejectionInput) => {
     setIsPending(true);
     try {
-      await rejectTheme(themeId);
+      if (revisionId) {
+        await rejectRevision(revisionId, reason);
+      } else {
+        await rejectTheme(themeId, reason);
+      }
+      setIsRejecting(false);
     } catch (error) {
       console.error("Failed to reject:", error);
       alert("Failed to reject theme");
@@ -34,6 +48,17 @@ export function ReviewThemeActions({ themeId }: ReviewThemeActionsProps) {
     }
   };
 
+  if (isRejecting) {
+    return (
+      <RejectReasonForm
+        id={revisionId ?? themeId}
+        isPending={isPending}
+        onSubmit={handleReject}
+        onCancel={() => setIsRejecting(false)}
+      />
+    );
+  }
+
   return (
     <div className="review-actions">
       <button
@@ -44,7 +69,7 @@ export function ReviewThemeActions({ themeId }: ReviewThemeActionsProps) {
         {isPending ? "..." : "Approve"}
       </button>
       <button
-        onClick={handleReject}
+        onClick={() => setIsRejecting(true)}
         disabled={isPending}
         className="btn btn-danger review-btn"
       >
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { Tag } from "@/lib/themes/types";
+import { THEME_MODES, type ThemeFieldError } from "@/lib/themes/schema";
+import { ThemeValidationErrors } from "@/components/themes/theme-validation-errors";
+import { updateThemeTags } from "./actions";
+
+interface ReviewThemeTagsProps {
+  themeId: string;
+  tags: Tag[];
+}
+
+export function ReviewThemeTags({ themeId, tags }: ReviewThemeTagsProps) {
+  const router = useRouter();
+  // Mode tags are managed automatically from the theme content
+  const editableTags = tags.filter((tag) => !(THEME_MODES as readonly string[]).includes(tag.slug));
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const [value, setValue] = useState(editableTags.map((tag) => tag.name).join(", "));
+  const [errors, setErrors] = useState<ThemeFieldError[]>([]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPending(true);
+    setErrors([]);
+    try {
+      const names = value.split(",").map((name) => name.trim()).filter(Boolean);
+      const result = await updateThemeTags(themeId, names);
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+      setIsEditing(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to update tags:", error);
+      setErrors([{ field: "tags", message: "Failed to update tags." }]);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="review-theme-tags">
+        {tags.map((tag) => (
+          <span key={tag.id} className="theme-tag">
+            {tag.name}
+          </span>
+        ))}
+        <button type="button" onClick={() => setIsEditing(true)} className="admin-link">
+          Edit tags
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="review-theme-tags">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="form-input"
+        placeholder="minimal, pastel, retro"
+        aria-label="Tags"
+      />
+      <button type="submit" disabled={isPending} className="btn btn-primary review-btn">
+        {isPending ? "..." : "Save"}
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsEditing(false)}
+        disabled={isPending}
+        className="btn btn-ghost review-btn"
+      >
+        Cancel
+      </button>
+      <ThemeValidationErrors errors={errors} />
+    </form>
+  );
+}
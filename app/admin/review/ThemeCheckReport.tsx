@@ -0,0 +1,74 @@
+import Link from "next/link";
+import { countReportIssues, type ThemeCheckReport as Report } from "@/lib/themes/checks";
+import { ThemeValidationErrors } from "@/components/themes/theme-validation-errors";
+import { ContrastBadge } from "@/components/themes/contrast-badge";
+
+interface ThemeCheckReportProps {
+  report: Report;
+}
+
+export function ThemeCheckReport({ report }: ThemeCheckReportProps) {
+  const issues = countReportIssues(report);
+
+  return (
+    <details className="review-check-report" open={issues > 0}>
+      <summary>
+        Automated checks:{" "}
+        <span className={issues > 0 ? "review-check-failed" : "review-check-passed"}>
+          {issues > 0 ? `${issues} issue${issues === 1 ? "" : "s"}` : "all passed"}
+        </span>
+      </summary>
+
+      {report.schema_errors.length > 0 && (
+        <ThemeValidationErrors errors={report.schema_errors} title="Schema check failed:" />
+      )}
+
+      {report.unknown_keys.length > 0 && (
+        <p className="review-check-line">
+          Unknown keys: <code>{report.unknown_keys.join(", ")}</code>
+        </p>
+      )}
+
+      {report.profanity.length > 0 && (
+        <p className="review-check-line">
+          Possible profanity in name or description: {report.profanity.join(", ")}
+        </p>
+      )}
+
+      {report.duplicates.length > 0 && (
+        <div className="review-check-line">
+          Possible duplicate of:
+          <ul>
+            {report.duplicates.map((match) => (
+              <li key={match.id}>
+                <Link href={`/themes/${match.id}`}>{match.name}</Link>
+                {match.similarity !== null &&
+                  ` (${Math.round(match.similarity * 100)}% matching colors)`}
+                {match.same_name && " (same name)"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.contrast.length > 0 && (
+        <table className="contrast-table">
+          <tbody>
+            {report.contrast.map((result) => (
+              <tr key={result.foreground}>
+                <td>{result.label}</td>
+                <td>
+                  <code>{result.foreground}</code> on <code>{result.background}</code>
+                </td>
+                <td>{result.ratio.toFixed(2)}:1</td>
+                <td>
+                  <ContrastBadge level={result.level} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+}
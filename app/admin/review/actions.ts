@@ -2,35 +2,670 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { formatRejectionReason, type RejectionInput } from "@/lib/themes/moderation";
+import { formatTagName, normalizeTags } from "@/lib/themes/tags";
+import { parseThemeContent, type ThemeFieldError } from "@/lib/themes/schema";
+import { getMinContrastRatio } from "@/lib/themes/contrast";
+import { getSearchColors } from "@/lib/themes/palette";
+import type { ModerationAuditEntry } from "@/lib/themes/types";
+import { requireAdmin } from "@/lib/auth/admin";
+import type { ReportTargetType } from "@/lib/themes/reports";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface BulkModerationResult {
+  succeeded: string[];
+  failed: string[];
+}
+
+interface AuditInput {
+  action: ModerationAuditEntry["action"];
+  theme_id: string | null;
+  theme_name: string | null;
+  from_status: string | null;
+  to_status: string | null;
+  revision_id?: string;
+  reason?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// The moderation itself has already happened, so a failed log write is
+// reported but doesn't fail the action
+async function logModerationAction(
+  supabase: SupabaseServerClient,
+  actorId: string,
+  entry: AuditInput
+) {
+  const { error } = await supabase.from("moderation_audit_log").insert({
+    actor_id: actorId,
+    revision_id: null,
+    reason: null,
+    details: null,
+    ...entry,
+  });
+
+  if (error) {
+    console.error("Error writing moderation audit log:", error);
+  }
+
+  revalidatePath("/admin/audit");
+}
+
+async function getThemeSnapshot(supabase: SupabaseServerClient, themeId: string) {
+  const { data: theme, error } = await supabase
+    .from("themes")
+    .select("id, name, status, css_content")
+    .eq("id", themeId)
+    .single();
+
+  if (error || !theme) {
+    throw new Error("Theme not found");
+  }
+
+  return theme;
+}
+
+async function applyThemeApproval(supabase: SupabaseServerClient, actorId: string, themeId: string) {
+  const theme = await getThemeSnapshot(supabase, themeId);
 
-export async function approveTheme(themeId: string) {
-  const supabase = await createClient();
-  
   const { error } = await supabase
     .from("themes")
-    .update({ status: "approved" })
+    .update({ status: "approved", rejection_reason: null })
     .eq("id", themeId);
 
   if (error) {
     throw new Error("Failed to approve theme: " + error.message);
   }
 
+  await logModerationAction(supabase, actorId, {
+    action: "approve_theme",
+    theme_id: themeId,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: "approved",
+  });
+}
+
+async function applyThemeRejection(
+  supabase: SupabaseServerClient,
+  actorId: string,
+  themeId: string,
+  rejectionReason: string
+) {
+  const theme = await getThemeSnapshot(supabase, themeId);
+
+  const { error } = await supabase
+    .from("themes")
+    .update({ status: "rejected", rejection_reason: rejectionReason })
+    .eq("id", themeId);
+
+  if (error) {
+    throw new Error("Failed to reject theme: " + error.message);
+  }
+
+  await logModerationAction(supabase, actorId, {
+    action: "reject_theme",
+    theme_id: themeId,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: "rejected",
+    reason: rejectionReason,
+  });
+}
+
+async function resolveReports(
+  supabase: SupabaseServerClient,
+  targetType: ReportTargetType,
+  targetId: string,
+  status: "dismissed" | "actioned"
+) {
+  const { error } = await supabase
+    .from("reports")
+    .update({ status })
+    .eq("target_type", targetType)
+    .eq("target_id", targetId)
+    .eq("status", "open");
+
+  if (error) {
+    throw new Error("Failed to update reports: " + error.message);
+  }
+
+  revalidatePath("/admin/reports");
+}
+
+// Runs each theme independently so one failure doesn't block the rest
+async function applyToEach(themeIds: string[], apply: (themeId: string) => Promise<void>) {
+  const result: BulkModerationResult = { succeeded: [], failed: [] };
+
+  for (const themeId of Array.from(new Set(themeIds))) {
+    try {
+      await apply(themeId);
+      result.succeeded.push(themeId);
+    } catch (error) {
+      console.error(`Bulk moderation failed for ${themeId}:`, error);
+      result.failed.push(themeId);
+    }
+  }
+
+  return result;
+}
+
+export async function approveTheme(themeId: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+
+  await applyThemeApproval(supabase, user.id, themeId);
+
+  revalidatePath("/admin/review");
+  revalidatePath("/themes");
+  revalidatePath("/profile/[username]", "page");
+}
+
+export async function rejectTheme(themeId: string, reason: RejectionInput) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+  const rejectionReason = formatRejectionReason(reason);
+
+  await applyThemeRejection(supabase, user.id, themeId, rejectionReason);
+
+  revalidatePath("/admin/review");
+  revalidatePath("/profile/[username]", "page");
+}
+
+export async function bulkApproveThemes(themeIds: string[]): Promise<BulkModerationResult> {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+
+  const result = await applyToEach(themeIds, (themeId) =>
+    applyThemeApproval(supabase, user.id, themeId)
+  );
+
+  revalidatePath("/admin/review");
+  revalidatePath("/themes");
+  revalidatePath("/profile/[username]", "page");
+
+  return result;
+}
+
+export async function bulkRejectThemes(
+  themeIds: string[],
+  reason: RejectionInput
+): Promise<BulkModerationResult> {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+  const rejectionReason = formatRejectionReason(reason);
+
+  const result = await applyToEach(themeIds, (themeId) =>
+    applyThemeRejection(supabase, user.id, themeId, rejectionReason)
+  );
+
+  revalidatePath("/admin/review");
+  revalidatePath("/profile/[username]", "page");
+
+  return result;
+}
+
+export async function deleteTheme(themeId: string, reason?: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase, "admin");
+  const theme = await getThemeSnapshot(supabase, themeId);
+
+  const { error } = await supabase.from("themes").delete().eq("id", themeId);
+
+  if (error) {
+    throw new Error("Failed to delete theme: " + error.message);
+  }
+
+  // theme_id is kept so the log can still be filtered by the deleted theme
+  await logModerationAction(supabase, user.id, {
+    action: "delete_theme",
+    theme_id: themeId,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: null,
+    reason: reason?.trim() || null,
+  });
+
+  revalidatePath("/admin");
   revalidatePath("/admin/review");
   revalidatePath("/themes");
-  revalidatePath("/profile/[username]");
+  revalidatePath("/profile/[username]", "page");
+}
+
+export async function deleteReview(reviewId: string, reason?: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+
+  const { data: review, error: fetchError } = await supabase
+    .from("theme_reviews")
+    .select("id, theme_id, user_id, rating, body")
+    .eq("id", reviewId)
+    .single();
+
+  if (fetchError || !review) {
+    throw new Error("Review not found");
+  }
+
+  const theme = await getThemeSnapshot(supabase, review.theme_id);
+
+  const { error } = await supabase.from("theme_reviews").delete().eq("id", reviewId);
+
+  if (error) {
+    throw new Error("Failed to delete review: " + error.message);
+  }
+
+  // The review itself is gone, so keep its content for the log
+  await logModerationAction(supabase, user.id, {
+    action: "delete_review",
+    theme_id: review.theme_id,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: theme.status,
+    reason: reason?.trim() || null,
+    details: { review_author_id: review.user_id, rating: review.rating, body: review.body },
+  });
+
+  revalidatePath("/admin/reviews");
+  revalidatePath("/themes");
+  revalidatePath(`/themes/${review.theme_id}`);
 }
 
-export async function rejectTheme(themeId: string) {
+export async function removeComment(commentId: string, reason?: string) {
   const supabase = await createClient();
-  
+  const { user } = await requireAdmin(supabase);
+
+  const { data: comment, error: fetchError } = await supabase
+    .from("theme_comments")
+    .select("id, theme_id, user_id, body")
+    .eq("id", commentId)
+    .single();
+
+  if (fetchError || !comment) {
+    throw new Error("Comment not found");
+  }
+
+  const theme = await getThemeSnapshot(supabase, comment.theme_id);
+
+  // Soft delete like the author's own delete so replies stay threaded
+  const { error } = await supabase
+    .from("theme_comments")
+    .update({ body: "", deleted_at: new Date().toISOString() })
+    .eq("id", commentId);
+
+  if (error) {
+    throw new Error("Failed to remove comment: " + error.message);
+  }
+
+  await resolveReports(supabase, "comment", commentId, "actioned");
+
+  await logModerationAction(supabase, user.id, {
+    action: "delete_comment",
+    theme_id: comment.theme_id,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: theme.status,
+    reason: reason?.trim() || null,
+    details: { comment_author_id: comment.user_id, body: comment.body },
+  });
+
+  revalidatePath(`/themes/${comment.theme_id}`);
+}
+
+export async function dismissReports(targetType: ReportTargetType, targetId: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+
+  await resolveReports(supabase, targetType, targetId, "dismissed");
+
+  const theme = targetType === "theme" ? await getThemeSnapshot(supabase, targetId) : null;
+
+  await logModerationAction(supabase, user.id, {
+    action: "dismiss_reports",
+    theme_id: theme?.id ?? null,
+    theme_name: theme?.name ?? null,
+    from_status: theme?.status ?? null,
+    to_status: theme?.status ?? null,
+    details: { target_type: targetType, target_id: targetId },
+  });
+}
+
+// Takes a reported theme out of the gallery and back into the review queue
+export async function unpublishTheme(themeId: string, reason?: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+  const theme = await getThemeSnapshot(supabase, themeId);
+
   const { error } = await supabase
     .from("themes")
-    .update({ status: "rejected" })
+    .update({ status: "under_review" })
     .eq("id", themeId);
 
   if (error) {
-    throw new Error("Failed to reject theme: " + error.message);
+    throw new Error("Failed to unpublish theme: " + error.message);
+  }
+
+  await resolveReports(supabase, "theme", themeId, "actioned");
+
+  await logModerationAction(supabase, user.id, {
+    action: "unpublish_theme",
+    theme_id: themeId,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: "under_review",
+    reason: reason?.trim() || null,
+  });
+
+  revalidatePath("/admin/review");
+  revalidatePath("/themes");
+  revalidatePath(`/themes/${themeId}`);
+  revalidatePath("/profile/[username]", "page");
+}
+
+export async function suspendUser(userId: string, reason?: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase, "admin");
+
+  if (userId === user.id) {
+    throw new Error("You can't suspend yourself");
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .update({ suspended_at: new Date().toISOString() })
+    .eq("id", userId)
+    .select("username")
+    .single();
+
+  if (error || !profile) {
+    throw new Error("Failed to suspend user: " + (error?.message ?? "user not found"));
+  }
+
+  await resolveReports(supabase, "user", userId, "actioned");
+
+  await logModerationAction(supabase, user.id, {
+    action: "suspend_user",
+    theme_id: null,
+    theme_name: null,
+    from_status: null,
+    to_status: null,
+    reason: reason?.trim() || null,
+    details: { user_id: userId, username: profile.username },
+  });
+
+  revalidatePath("/profile/[username]", "page");
+}
+
+export async function updateThemeTags(
+  themeId: string,
+  tagNames: string[]
+): Promise<{ ok: true } | { ok: false; errors: ThemeFieldError[] }> {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+  const theme = await getThemeSnapshot(supabase, themeId);
+
+  const errors: ThemeFieldError[] = [];
+  const tags = normalizeTags(tagNames, errors);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // The mode tag always follows the theme content, like on upload
+  const content = parseThemeContent(theme.css_content);
+  const mode = content.ok ? content.data.mode : null;
+  const allTags = mode
+    ? [{ name: formatTagName(mode), slug: mode }, ...tags.filter((tag) => tag.slug !== mode)]
+    : tags;
+
+  const { data: currentLinks } = await supabase
+    .from("theme_tags")
+    .select("tag_id, tags (slug)")
+    .eq("theme_id", themeId)
+    .overrideTypes<{ tag_id: string; tags: { slug: string } | null }[], { merge: false }>();
+  const previousSlugs = (currentLinks || [])
+    .map((link) => link.tags?.slug)
+    .filter((slug): slug is string => !!slug);
+
+  if (allTags.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("tags")
+      .upsert(allTags, { onConflict: "slug", ignoreDuplicates: true });
+
+    if (upsertError) {
+      console.error("Error creating tags:", upsertError);
+      return { ok: false, errors: [{ field: "tags", message: "Failed to save tags." }] };
+    }
+  }
+
+  const { data: tagRows, error: tagError } = await supabase
+    .from("tags")
+    .select("id, slug")
+    .in(
+      "slug",
+      allTags.map((tag) => tag.slug)
+    );
+
+  if (tagError || !tagRows) {
+    console.error("Error fetching tags:", tagError);
+    return { ok: false, errors: [{ field: "tags", message: "Failed to save tags." }] };
   }
 
+  // Link the new tags before unlinking the old ones, so a failure part-way
+  // leaves extra tags rather than none
+  const previousIds = new Set((currentLinks || []).map((link) => link.tag_id));
+  const nextIds = new Set(tagRows.map((tag) => tag.id));
+  const addedIds = [...nextIds].filter((id) => !previousIds.has(id));
+  const removedIds = [...previousIds].filter((id) => !nextIds.has(id));
+
+  if (addedIds.length > 0) {
+    const { error: linkError } = await supabase
+      .from("theme_tags")
+      .insert(addedIds.map((tagId) => ({ theme_id: themeId, tag_id: tagId })));
+
+    if (linkError) {
+      console.error("Error linking tags:", linkError);
+      return { ok: false, errors: [{ field: "tags", message: "Failed to save tags." }] };
+    }
+  }
+
+  if (removedIds.length > 0) {
+    const { error: unlinkError } = await supabase
+      .from("theme_tags")
+      .delete()
+      .eq("theme_id", themeId)
+      .in("tag_id", removedIds);
+
+    if (unlinkError) {
+      console.error("Error removing tags:", unlinkError);
+      return { ok: false, errors: [{ field: "tags", message: "Failed to save tags." }] };
+    }
+  }
+
+  await logModerationAction(supabase, user.id, {
+    action: "edit_tags",
+    theme_id: themeId,
+    theme_name: theme.name,
+    from_status: theme.status,
+    to_status: theme.status,
+    details: {
+      from_tags: previousSlugs,
+      to_tags: allTags.map((tag) => tag.slug),
+    },
+  });
+
   revalidatePath("/admin/review");
+  revalidatePath("/themes");
+  revalidatePath(`/themes/${themeId}`);
+
+  return { ok: true };
+}
+
+export async function approveRevision(revisionId: string) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+
+  const { data: revision, error: fetchError } = await supabase
+    .from("theme_revisions")
+    .select("*")
+    .eq("id", revisionId)
+    .eq("status", "pending")
+    .single();
+
+  if (fetchError || !revision) {
+    throw new Error("Revision not found or already reviewed");
+  }
+
+  // Save version history first, so a failure leaves the theme and revision
+  // untouched
+  const { data: savedVersion, error: versionError } = await supabase
+    .from("versions")
+    .insert({
+      theme_id: revision.theme_id,
+      version: revision.version,
+      css_content: revision.css_content,
+      changelog: revision.changelog,
+    })
+    .select("id")
+    .single();
+
+  if (versionError || !savedVersion) {
+    throw new Error("Failed to save version history: " + (versionError?.message ?? "no row returned"));
+  }
+
+  const { error: themeError } = await supabase
+    .from("themes")
+    .update({
+      name: revision.name,
+      description: revision.description,
+      css_content: revision.css_content,
+      min_contrast_ratio: getMinContrastRatio(revision.css_content),
+      search_colors: getSearchColors(revision.css_content),
+      version: revision.version,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", revision.theme_id);
+
+  if (themeError) {
+    // The revision stays pending, so drop the history entry it would duplicate
+    await supabase.from("versions").delete().eq("id", savedVersion.id);
+    throw new Error("Failed to apply revision: " + themeError.message);
+  }
+
+  const { error } = await supabase
+    .from("theme_revisions")
+    .update({ status: "approved", reviewed_at: new Date().toISOString() })
+    .eq("id", revisionId);
+
+  if (error) {
+    throw new Error("Failed to approve revision: " + error.message);
+  }
+
+  await logModerationAction(supabase, user.id, {
+    action: "approve_revision",
+    theme_id: revision.theme_id,
+    theme_name: revision.name,
+    revision_id: revisionId,
+    from_status: "pending",
+    to_status: "approved",
+    details: { version: revision.version },
+  });
+
+  revalidatePath("/admin/review");
+  revalidatePath("/themes");
+  revalidatePath(`/themes/${revision.theme_id}`);
+}
+
+export async function rejectRevision(revisionId: string, reason: RejectionInput) {
+  const supabase = await createClient();
+  const { user } = await requireAdmin(supabase);
+  const rejectionReason = formatRejectionReason(reason);
+
+  const { data: revision, error: fetchError } = await supabase
+    .from("theme_revisions")
+    .select("theme_id, name, version")
+    .eq("id", revisionId)
+    .eq("status", "pending")
+    .single();
+
+  if (fetchError || !revision) {
+    throw new Error("Revision not found or already reviewed");
+  }
+
+  const { error } = await supabase
+    .from("theme_revisions")
+    .update({
+      status: "rejected",
+      rejection_reason: rejectionReason,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", revisionId)
+    .eq("status", "pending");
+
+  if (error) {
+    throw new Error("Failed to reject revision: " + error.message);
+  }
+
+  await logModerationAction(supabase, user.id, {
+    action: "reject_revision",
+    theme_id: revision.theme_id,
+    theme_name: revision.name,
+    revision_id: revisionId,
+    from_status: "pending",
+    to_status: "rejected",
+    reason: rejectionReason,
+    details: { version: revision.version },
+  });
+
+  revalidatePath("/admin/review");
+}
+
+/**
+ * Recomputes min_contrast_ratio and search_colors for every theme, for themes
+ * stored before the columns existed and after changes to how they're measured.
+ */
+export async function recomputeThemeColors(): Promise<{ updated: number }> {
+  const supabase = await createClient();
+  await requireAdmin(supabase, "admin");
+
+  const pageSize = 500;
+  let updated = 0;
+
+  // Paging by id stays stable while rows are updated
+  for (let from = 0; ; from += pageSize) {
+    const { data: themes, error } = await supabase
+      .from("themes")
+      .select("id, css_content, min_contrast_ratio, search_colors")
+      .order("id")
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error("Failed to load themes: " + error.message);
+    }
+
+    for (const theme of themes || []) {
+      const ratio = getMinContrastRatio(theme.css_content);
+      const searchColors = getSearchColors(theme.css_content);
+      if (
+        ratio === theme.min_contrast_ratio &&
+        searchColors.join(",") === (theme.search_colors ?? []).join(",")
+      ) {
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("themes")
+        .update({ min_contrast_ratio: ratio, search_colors: searchColors })
+        .eq("id", theme.id);
+
+      if (updateError) {
+        throw new Error("Failed to update theme colors: " + updateError.message);
+      }
+      updated++;
+    }
+
+    if (!themes || themes.length < pageSize) break;
+  }
+
+  revalidatePath("/themes");
+
+  return { updated };
 }
@@ -1,33 +1,119 @@
 import { createClient } from "@/lib/supabase/server";
-import { redirect } from "next/navigation";
+import { requireAdminPage } from "@/lib/auth/admin";
 import Link from "next/link";
 import { ReviewThemeActions } from "./ReviewThemeActions";
+import { ReviewThemeTags } from "./ReviewThemeTags";
+import { ReviewQueue } from "./ReviewQueue";
+import { ThemeCheckReport } from "./ThemeCheckReport";
+import { runThemeChecks } from "@/lib/themes/checks";
+import { getDuplicateCandidates } from "@/lib/themes/queries";
+import { ThemeDiffView } from "@/components/themes/theme-diff";
+import { MarkdownLite } from "@/components/markdown-lite";
+import { diffThemeContent } from "@/lib/themes/diff";
+import type { Tag, Theme, ThemeRevision } from "@/lib/themes/types";
 
-export default async function ReviewPage() {
-  const supabase = await createClient();
-  const { data: { user } } = await supabase.auth.getUser();
+interface ReviewPageProps {
+  searchParams: Promise<{ age?: string; author?: string; tag?: string }>;
+}
 
-  if (!user) {
-    redirect("/login");
-  }
+const AGE_FILTERS = [
+  { value: "24h", label: "Last 24 hours" },
+  { value: "7d", label: "Last 7 days" },
+  { value: "older", label: "Older than 7 days" },
+] as const;
 
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", user.id)
-    .single();
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-  if (!profile?.is_admin) {
-    redirect("/");
-  }
+function matchesAge(createdAt: string, age: string | undefined) {
+  const elapsed = Date.now() - new Date(createdAt).getTime();
+  if (age === "24h") return elapsed <= DAY_MS;
+  if (age === "7d") return elapsed <= 7 * DAY_MS;
+  if (age === "older") return elapsed > 7 * DAY_MS;
+  return true;
+}
+
+export default async function ReviewPage({ searchParams }: ReviewPageProps) {
+  const supabase = await createClient();
+  await requireAdminPage(supabase);
+  const filters = await searchParams;
 
   // Fetch pending themes
-  const { data: pendingThemes } = await supabase
+  const { data: pendingThemeRows } = await supabase
     .from("themes")
-    .select("*")
+    .select(
+      `
+      *,
+      theme_tags (
+        tags (id, name, slug)
+      )
+    `
+    )
     .eq("status", "under_review")
     .order("created_at", { ascending: false });
 
+  const pendingThemes = pendingThemeRows as Theme[] | null;
+
+  // Fetch pending updates to approved themes
+  const { data: revisionRows } = await supabase
+    .from("theme_revisions")
+    .select("*")
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  const revisions = (revisionRows || []) as ThemeRevision[];
+
+  // Fetch the live themes separately to compare against
+  const liveThemeMap = new Map<string, Theme>();
+  if (revisions.length > 0) {
+    const { data: liveThemes } = await supabase
+      .from("themes")
+      .select("*")
+      .in("id", revisions.map((r) => r.theme_id));
+
+    for (const theme of (liveThemes || []) as Theme[]) {
+      liveThemeMap.set(theme.id, theme);
+    }
+  }
+
+  const hasPendingThemes = !!pendingThemes && pendingThemes.length > 0;
+
+  // Older submissions have no stored report, and revisions are checked live
+  const unreportedThemes = (pendingThemes || []).filter((theme) => !theme.review_report);
+  const [themeCandidates, revisionCandidates] = await Promise.all([
+    Promise.all(unreportedThemes.map((theme) => getDuplicateCandidates(theme))),
+    Promise.all(
+      revisions.map((revision) =>
+        getDuplicateCandidates({
+          id: revision.theme_id,
+          name: revision.name || liveThemeMap.get(revision.theme_id)?.name || "",
+          css_content: revision.css_content,
+        })
+      )
+    ),
+  ]);
+  const candidatesByTheme = new Map(
+    unreportedThemes.map((theme, index) => [theme.id, themeCandidates[index]])
+  );
+  const candidatesByRevision = new Map(
+    revisions.map((revision, index) => [revision.id, revisionCandidates[index]])
+  );
+
+  // The queue is small, so filter in memory; tag options come from the whole queue
+  const tagOptions = new Map<string, Tag>();
+  for (const theme of pendingThemes || []) {
+    for (const { tags } of theme.theme_tags || []) {
+      tagOptions.set(tags.slug, tags);
+    }
+  }
+
+  const authorFilter = filters.author?.trim().toLowerCase() || "";
+  const filteredThemes = (pendingThemes || []).filter(
+    (theme) =>
+      matchesAge(theme.created_at, filters.age) &&
+      (!authorFilter || theme.author_name.toLowerCase().includes(authorFilter)) &&
+      (!filters.tag || (theme.theme_tags || []).some(({ tags }) => tags.slug === filters.tag))
+  );
+
   return (
     <main className="section page-section">
       <div className="container">
@@ -38,27 +124,154 @@ export default async function ReviewPage() {
           </Link>
         </div>
 
-        {pendingThemes && pendingThemes.length > 0 ? (
-          <div className="review-themes animate-fade-up" style={{ animationDelay: "80ms" }}>
-            {pendingThemes.map((theme) => (
-              <div key={theme.id} className="review-theme-card">
-                <Link href={`/themes/${theme.id}`} className="review-theme-link">
-                  <div className="review-theme-info">
-                    <h3>{theme.name}</h3>
-                    <p className="review-theme-author">by {theme.author_name}</p>
-                    <p className="review-theme-date">
-                      Submitted {new Date(theme.created_at).toLocaleDateString()}
-                    </p>
-                  </div>
-                  <div className="review-theme-version">
-                    <span className="version-badge">v{theme.version}</span>
-                  </div>
-                </Link>
-                <ReviewThemeActions themeId={theme.id} />
+        {hasPendingThemes && (
+          <section className="animate-fade-up" style={{ animationDelay: "80ms" }}>
+            <form method="get" className="admin-filters">
+              <label>
+                Submitted
+                <select name="age" defaultValue={filters.age || ""} className="filter-select">
+                  <option value="">Any time</option>
+                  {AGE_FILTERS.map((age) => (
+                    <option key={age.value} value={age.value}>
+                      {age.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Author
+                <input
+                  type="text"
+                  name="author"
+                  defaultValue={filters.author || ""}
+                  className="form-input"
+                />
+              </label>
+              <label>
+                Tag
+                <select name="tag" defaultValue={filters.tag || ""} className="filter-select">
+                  <option value="">All tags</option>
+                  {Array.from(tagOptions.values()).map((tag) => (
+                    <option key={tag.slug} value={tag.slug}>
+                      {tag.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button type="submit" className="btn btn-primary">
+                Filter
+              </button>
+              <Link href="/admin/review" className="btn btn-ghost">
+                Clear
+              </Link>
+            </form>
+
+            {filteredThemes.length === 0 ? (
+              <div className="review-empty">
+                <p>No pending themes match these filters.</p>
               </div>
-            ))}
-          </div>
-        ) : (
+            ) : (
+              <ReviewQueue
+                items={filteredThemes.map((theme) => {
+                  return {
+                    id: theme.id,
+                    card: (
+                      <div className="review-theme-card">
+                        <div className="review-theme-body">
+                          <Link href={`/themes/${theme.id}`} className="review-theme-link">
+                            <div className="review-theme-info">
+                              <h3>{theme.name}</h3>
+                              <p className="review-theme-author">by {theme.author_name}</p>
+                              <p className="review-theme-date">
+                                Submitted {new Date(theme.created_at).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <div className="review-theme-version">
+                              <span className="version-badge">v{theme.version}</span>
+                            </div>
+                          </Link>
+                          <ThemeCheckReport
+                            report={
+                              theme.review_report ??
+                              runThemeChecks(theme, candidatesByTheme.get(theme.id) ?? [])
+                            }
+                          />
+                          <ReviewThemeTags
+                            themeId={theme.id}
+                            tags={(theme.theme_tags || []).map(({ tags }) => tags)}
+                          />
+                        </div>
+                        <ReviewThemeActions themeId={theme.id} />
+                      </div>
+                    ),
+                  };
+                })}
+              />
+            )}
+          </section>
+        )}
+
+        {revisions.length > 0 && (
+          <section className="admin-section animate-fade-up" style={{ animationDelay: "120ms" }}>
+            <h2>Pending Updates</h2>
+            <div className="review-themes">
+              {revisions.map((revision) => {
+                const live = liveThemeMap.get(revision.theme_id);
+
+                return (
+                  <div key={revision.id} className="review-theme-card">
+                    <div className="review-theme-body">
+                      <Link href={`/themes/${revision.theme_id}`} className="review-theme-link">
+                        <div className="review-theme-info">
+                          <h3>
+                            {revision.name || live?.name}
+                            {live && revision.name && revision.name !== live.name && (
+                              <span className="review-theme-renamed"> (was {live.name})</span>
+                            )}
+                          </h3>
+                          <p className="review-theme-author">by {live?.author_name}</p>
+                          <p className="review-theme-date">
+                            Submitted {new Date(revision.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="review-theme-version">
+                          <span className="version-badge">
+                            {live ? `v${live.version} → ` : ""}v{revision.version}
+                          </span>
+                        </div>
+                      </Link>
+                      {revision.changelog && (
+                        <MarkdownLite source={revision.changelog} className="review-theme-changelog" />
+                      )}
+                      <ThemeCheckReport
+                        report={runThemeChecks(
+                          {
+                            id: revision.theme_id,
+                            name: revision.name || live?.name || "",
+                            description: revision.description,
+                            css_content: revision.css_content,
+                          },
+                          candidatesByRevision.get(revision.id) ?? []
+                        )}
+                      />
+                      {live && (
+                        <details className="review-theme-diff">
+                          <summary>Changes from the live version</summary>
+                          <ThemeDiffView
+                            diff={diffThemeContent(live.css_content, revision.css_content)}
+                          />
+                        </details>
+                      )}
+                    </div>
+                    <ReviewThemeActions themeId={revision.theme_id} revisionId={revision.id} />
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        {!hasPendingThemes && revisions.length === 0 && (
           <div className="review-empty animate-fade-up" style={{ animationDelay: "80ms" }}>
             <p>No themes pending review.</p>
             <Link href="/admin" className="btn btn-primary">
@@ -0,0 +1,155 @@
+import { createClient } from "@/lib/supabase/server";
+import { requireAdminPage } from "@/lib/auth/admin";
+import Link from "next/link";
+import { MAX_RATING, MIN_RATING } from "@/lib/themes/reviews";
+import type { Profile, ThemeReview } from "@/lib/themes/types";
+import { StarRating } from "@/components/themes/star-rating";
+import { AdminDeleteReviewButton } from "../AdminDeleteReviewButton";
+
+interface AdminReviewsPageProps {
+  searchParams: Promise<{ rating?: string; q?: string }>;
+}
+
+const REVIEWS_PAGE_SIZE = 200;
+
+export default async function AdminReviewsPage({ searchParams }: AdminReviewsPageProps) {
+  const supabase = await createClient();
+  await requireAdminPage(supabase);
+
+  const filters = await searchParams;
+  const rating = Number(filters.rating);
+  const ratingFilter = Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING ? rating : null;
+  const textFilter = filters.q?.trim() || "";
+
+  let query = supabase
+    .from("theme_reviews")
+    .select("*")
+    .order("updated_at", { ascending: false })
+    .limit(REVIEWS_PAGE_SIZE);
+
+  if (ratingFilter) {
+    query = query.eq("rating", ratingFilter);
+  }
+  if (textFilter) {
+    query = query.ilike("body", `%${textFilter}%`);
+  }
+
+  const { data: reviewRows } = await query;
+  const reviews = (reviewRows || []) as ThemeReview[];
+
+  // Fetch profiles and themes separately to avoid FK relationship issues
+  const userIds = Array.from(new Set(reviews.map((review) => review.user_id)));
+  const themeIds = Array.from(new Set(reviews.map((review) => review.theme_id)));
+
+  const [{ data: profileRows }, { data: themeRows }] = await Promise.all([
+    userIds.length > 0
+      ? supabase.from("profiles").select("*").in("id", userIds)
+      : Promise.resolve({ data: [] }),
+    themeIds.length > 0
+      ? supabase.from("themes").select("id, name").in("id", themeIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const profileMap = new Map(((profileRows || []) as Profile[]).map((p) => [p.id, p]));
+  const themeMap = new Map(
+    ((themeRows || []) as { id: string; name: string }[]).map((t) => [t.id, t.name])
+  );
+
+  return (
+    <main className="section page-section">
+      <div className="container">
+        <div className="review-header">
+          <h1 className="animate-fade-up">Reviews</h1>
+          <Link href="/admin" className="btn btn-ghost">
+            Back to Admin
+          </Link>
+        </div>
+
+        <form method="get" className="admin-filters animate-fade-up" style={{ animationDelay: "40ms" }}>
+          <label>
+            Rating
+            <select name="rating" defaultValue={ratingFilter ?? ""} className="filter-select">
+              <option value="">All ratings</option>
+              {Array.from({ length: MAX_RATING }, (_, i) => i + MIN_RATING).map((value) => (
+                <option key={value} value={value}>
+                  {value} star{value === 1 ? "" : "s"}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Text
+            <input
+              type="text"
+              name="q"
+              defaultValue={textFilter}
+              placeholder="Search review text"
+              className="form-input"
+            />
+          </label>
+          <button type="submit" className="btn btn-primary">
+            Filter
+          </button>
+          <Link href="/admin/reviews" className="btn btn-ghost">
+            Clear
+          </Link>
+        </form>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "80ms" }}>
+          {reviews.length === 0 ? (
+            <div className="review-empty">
+              <p>No reviews match these filters.</p>
+            </div>
+          ) : (
+            <div className="admin-table-container">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>Theme</th>
+                    <th>Reviewer</th>
+                    <th>Rating</th>
+                    <th>Review</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviews.map((review) => {
+                    const reviewer = profileMap.get(review.user_id);
+
+                    return (
+                      <tr key={review.id}>
+                        <td>{new Date(review.updated_at).toLocaleString()}</td>
+                        <td>
+                          <Link href={`/themes/${review.theme_id}`} className="admin-link">
+                            {themeMap.get(review.theme_id) || review.theme_id}
+                          </Link>
+                        </td>
+                        <td>
+                          {reviewer?.username ? (
+                            <Link href={`/profile/${reviewer.username}`} className="admin-link">
+                              {reviewer.display_name || reviewer.username}
+                            </Link>
+                          ) : (
+                            "Unknown"
+                          )}
+                        </td>
+                        <td>
+                          <StarRating rating={review.rating} />
+                        </td>
+                        <td>{review.body || "—"}</td>
+                        <td>
+                          <AdminDeleteReviewButton reviewId={review.id} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
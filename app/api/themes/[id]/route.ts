@@ -10,8 +10,9 @@ export async function GET(
 
   const { data: theme, error } = await supabase
     .from("themes")
-    .select("css_content")
+    .select("id, name, css_content")
     .eq("id", id)
+    .eq("status", "approved")
     .single();
 
   if (error || !theme) {
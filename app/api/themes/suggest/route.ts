@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTags, getThemes } from "@/lib/themes/queries";
+import { matchesText, tokenize } from "@/lib/themes/search";
+
+const THEME_SUGGESTIONS = 5;
+const TAG_SUGGESTIONS = 3;
+
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+
+  if (tokenize(query).length === 0) {
+    return NextResponse.json({ themes: [], tags: [] });
+  }
+
+  const [themes, tags] = await Promise.all([
+    getThemes({ search: query, sortBy: "popular", limit: THEME_SUGGESTIONS }),
+    getTags(),
+  ]);
+
+  return NextResponse.json({
+    themes: themes.map((theme) => ({
+      id: theme.id,
+      name: theme.name,
+      author: theme.profiles?.display_name || theme.author_name,
+    })),
+    tags: tags
+      .filter((tag) => matchesText(tag.name, query))
+      .slice(0, TAG_SUGGESTIONS)
+      .map((tag) => ({ slug: tag.slug, name: tag.name })),
+  });
+}
@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server";
+import { getTags } from "@/lib/themes/queries";
+import { cachedJson, toApiTag } from "@/lib/api/v1";
+
+export async function GET(request: NextRequest) {
+  const tags = await getTags();
+
+  return cachedJson(request, { data: tags.map(toApiTag) });
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { getThemeById, getThemeVersions } from "@/lib/themes/queries";
+import { apiError, cachedJson, toApiThemeDetail } from "@/lib/api/v1";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const [theme, versions] = await Promise.all([getThemeById(id), getThemeVersions(id)]);
+
+  if (!theme) {
+    return apiError(404, "not_found", "Theme not found.");
+  }
+
+  return cachedJson(request, { data: toApiThemeDetail(theme, versions) });
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { getThemes } from "@/lib/themes/queries";
+import type { ThemeSortOption } from "@/lib/themes/types";
+import { normalizeHexColor } from "@/lib/themes/palette";
+import { parseThemeFilters } from "@/lib/themes/filters";
+import { apiError, cachedJson, parsePagination, toApiList, toApiTheme } from "@/lib/api/v1";
+
+const SORT_OPTIONS: ThemeSortOption[] = ["newest", "popular", "top_rated", "most_liked", "name"];
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  const pagination = parsePagination(searchParams);
+  if (!pagination) {
+    return apiError(400, "invalid_pagination", "limit must be 1-100 and offset must be 0 or more.");
+  }
+
+  const sort = searchParams.get("sort") ?? "newest";
+  if (!SORT_OPTIONS.includes(sort as ThemeSortOption)) {
+    return apiError(400, "invalid_sort", `sort must be one of: ${SORT_OPTIONS.join(", ")}.`);
+  }
+
+  const rawColor = searchParams.get("color");
+  if (rawColor && !normalizeHexColor(rawColor)) {
+    return apiError(400, "invalid_color", "color must be a hex color like 7c3aed or #7c3aed.");
+  }
+
+  const themes = await getThemes({
+    search: searchParams.get("search") || undefined,
+    ...parseThemeFilters(searchParams),
+    sortBy: sort as ThemeSortOption,
+    limit: pagination.limit,
+    offset: pagination.offset,
+  });
+
+  return cachedJson(
+    request,
+    toApiList(themes.map(toApiTheme), pagination.limit, pagination.offset)
+  );
+}
@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { getProfileByUsername, getProfileThemes } from "@/lib/themes/queries";
+import { apiError, cachedJson, toApiProfile, toApiTheme } from "@/lib/api/v1";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  const { username } = await params;
+  const profile = await getProfileByUsername(username);
+
+  if (!profile) {
+    return apiError(404, "not_found", "User not found.");
+  }
+
+  const themes = await getProfileThemes(profile.id);
+
+  // Profile themes don't carry the joined profile, so attach it for the author field
+  return cachedJson(request, {
+    user: toApiProfile(profile),
+    data: themes.map((theme) => toApiTheme({ ...theme, profiles: profile })),
+  });
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ThemeCollection } from "@/lib/themes/types";
+import { CollectionForm } from "../collection-form";
+import { deleteCollection } from "../actions";
+
+interface CollectionOwnerActionsProps {
+  collection: Pick<ThemeCollection, "id" | "name" | "description" | "is_public">;
+}
+
+export function CollectionOwnerActions({ collection }: CollectionOwnerActionsProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${collection.name}"? The themes themselves are not affected.`)) return;
+
+    setIsPending(true);
+    try {
+      await deleteCollection(collection.id);
+      router.push("/collections");
+    } catch (error) {
+      console.error("Failed to delete collection:", error);
+      alert("Failed to delete collection");
+      setIsPending(false);
+    }
+  };
+
+  if (isEditing) {
+    return <CollectionForm collection={collection} onDone={() => setIsEditing(false)} />;
+  }
+
+  return (
+    <div className="collection-owner-actions">
+      <button type="button" onClick={() => setIsEditing(true)} className="btn btn-ghost">
+        Edit
+      </button>
+      <button type="button" onClick={handleDelete} disabled={isPending} className="btn btn-danger">
+        {isPending ? "Deleting..." : "Delete"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import type { Theme } from "@/lib/themes/types";
+import { ThemeCard } from "@/components/themes/theme-card";
+import { removeThemeFromCollection, reorderCollection } from "../actions";
+
+interface CollectionThemesProps {
+  collectionId: string;
+  themes: Theme[];
+  likedIds: string[];
+  signedIn: boolean;
+}
+
+// Owner view of a collection: the usual cards plus move and remove controls
+export function CollectionThemes({ collectionId, themes, likedIds, signedIn }: CollectionThemesProps) {
+  const [order, setOrder] = useState(themes);
+  const [isPending, setIsPending] = useState(false);
+
+  const move = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+
+    const previous = order;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+    setIsPending(true);
+
+    try {
+      await reorderCollection(collectionId, next.map((theme) => theme.id));
+    } catch (error) {
+      console.error("Failed to reorder:", error);
+      alert(error instanceof Error ? error.message : "Failed to reorder collection");
+      setOrder(previous);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const remove = async (themeId: string) => {
+    setIsPending(true);
+    try {
+      await removeThemeFromCollection(collectionId, themeId);
+      setOrder((prev) => prev.filter((theme) => theme.id !== themeId));
+    } catch (error) {
+      console.error("Failed to remove:", error);
+      alert("Failed to remove theme");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (order.length === 0) {
+    return (
+      <div className="theme-grid-empty">
+        <p>No themes yet. Use &ldquo;+ Collect&rdquo; on any theme to add it here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="theme-grid">
+      {order.map((theme, index) => (
+        <div key={theme.id} className="collection-item">
+          <ThemeCard theme={theme} liked={likedIds.includes(theme.id)} signedIn={signedIn} />
+          <div className="collection-item-controls">
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={isPending || index === 0}
+              className="admin-link"
+              aria-label={`Move ${theme.name} earlier`}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={isPending || index === order.length - 1}
+              className="admin-link"
+              aria-label={`Move ${theme.name} later`}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => remove(theme.id)}
+              disabled={isPending}
+              className="admin-link admin-link-danger"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getCollectionById } from "@/lib/themes/queries";
+import { getCollectionFileName } from "@/lib/themes/collections";
+import { buildMiraThemeFile, getThemeFileName } from "@/lib/mira";
+import { createZip } from "@/lib/zip";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const collection = await getCollectionById(id, user?.id);
+  if (!collection) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  // Themes can share a name (or slug), so later ones get a numbered suffix
+  const usedNames = new Set<string>();
+  const zip = createZip(
+    (collection.themes || []).map((theme) => ({
+      name: getUniqueFileName(getThemeFileName(theme.name), usedNames),
+      content: JSON.stringify(
+        buildMiraThemeFile({
+          name: theme.name,
+          author: theme.author_name,
+          version: theme.version,
+          cssContent: theme.css_content,
+        }),
+        null,
+        2
+      ),
+    }))
+  );
+
+  return new NextResponse(Buffer.from(zip), {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${getCollectionFileName(collection.name)}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function getUniqueFileName(fileName: string, usedNames: Set<string>): string {
+  const base = fileName.replace(/\.json$/, "");
+  let name = fileName;
+  for (let suffix = 2; usedNames.has(name); suffix++) {
+    name = `${base}-${suffix}.json`;
+  }
+  usedNames.add(name);
+  return name;
+}
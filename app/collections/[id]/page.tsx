@@ -0,0 +1,107 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getCollectionById, getLikedThemeIds } from "@/lib/themes/queries";
+import { createClient } from "@/lib/supabase/server";
+import { getSiteUrl } from "@/lib/site-url";
+import { ThemeGrid } from "@/components/themes/theme-grid";
+import { CollectionThemes } from "./collection-themes";
+import { CollectionOwnerActions } from "./collection-owner-actions";
+
+interface CollectionPageProps {
+  params: Promise<{ id: string }>;
+}
+
+async function getViewerCollection(id: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return { user, collection: await getCollectionById(id, user?.id) };
+}
+
+export async function generateMetadata({ params }: CollectionPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const { collection } = await getViewerCollection(id);
+
+  if (!collection) {
+    return {
+      title: "Collection Not Found",
+    };
+  }
+
+  const curator = collection.profiles?.display_name || collection.profiles?.username || "a Mira user";
+
+  return {
+    title: `${collection.name} - Mira Themes`,
+    description: collection.description || `A theme collection curated by ${curator}`,
+    alternates: {
+      canonical: `${getSiteUrl()}/collections/${id}`,
+    },
+    robots: collection.is_public ? undefined : { index: false },
+  };
+}
+
+export default async function CollectionPage({ params }: CollectionPageProps) {
+  const { id } = await params;
+  const { user, collection } = await getViewerCollection(id);
+
+  if (!collection) {
+    notFound();
+  }
+
+  const themes = collection.themes || [];
+  const isOwner = user?.id === collection.user_id;
+  const likedIds = user ? await getLikedThemeIds(user.id, themes.map((theme) => theme.id)) : [];
+  const curatorUsername = collection.profiles?.username;
+  const curatorName = collection.profiles?.display_name || curatorUsername || "Unknown";
+
+  return (
+    <main className="section page-enter">
+      <div className="container">
+        <div className="collection-header animate-fade-up">
+          <div>
+            <h1>{collection.name}</h1>
+            <p className="theme-detail-author">
+              Curated by{" "}
+              {curatorUsername ? (
+                <Link href={`/profile/${curatorUsername}`}>{curatorName}</Link>
+              ) : (
+                curatorName
+              )}
+              {" · "}
+              {themes.length} {themes.length === 1 ? "theme" : "themes"}
+              {!collection.is_public && <span className="theme-tag">Private</span>}
+            </p>
+            {collection.description && (
+              <p className="theme-detail-description">{collection.description}</p>
+            )}
+          </div>
+          <div className="theme-detail-actions">
+            {themes.length > 0 && (
+              <a href={`/collections/${collection.id}/download`} className="btn btn-primary" download>
+                Download All (.zip)
+              </a>
+            )}
+            {isOwner && <CollectionOwnerActions collection={collection} />}
+          </div>
+        </div>
+
+        <div className="profile-themes animate-fade-up" style={{ animationDelay: "120ms" }}>
+          {isOwner ? (
+            <CollectionThemes
+              collectionId={collection.id}
+              themes={themes}
+              likedIds={likedIds}
+              signedIn
+            />
+          ) : (
+            <ThemeGrid themes={themes} likedIds={likedIds} signedIn={!!user} />
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
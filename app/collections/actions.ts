@@ -0,0 +1,262 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import type { ThemeFieldError } from "@/lib/themes/schema";
+import { MAX_COLLECTION_THEMES, normalizeCollectionInput } from "@/lib/themes/collections";
+import type { CollectionInput } from "@/lib/themes/types";
+import { SUSPENDED_MESSAGE, isUserSuspended } from "@/lib/auth/suspension";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type CollectionResult =
+  | { ok: true; collectionId: string }
+  | { ok: false; errors: ThemeFieldError[] };
+
+export interface CollectionMembership {
+  id: string;
+  name: string;
+  is_public: boolean;
+  hasTheme: boolean;
+}
+
+async function requireUser(supabase: SupabaseServerClient) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("You must be signed in to manage collections.");
+  }
+
+  return user;
+}
+
+async function requireOwnedCollection(
+  supabase: SupabaseServerClient,
+  collectionId: string,
+  userId: string
+) {
+  const { data: collection } = await supabase
+    .from("collections")
+    .select("id, user_id")
+    .eq("id", collectionId)
+    .single();
+
+  if (!collection || collection.user_id !== userId) {
+    throw new Error("You can only change collections that you own.");
+  }
+
+  return collection;
+}
+
+async function touchCollection(supabase: SupabaseServerClient, collectionId: string) {
+  await supabase
+    .from("collections")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", collectionId);
+
+  revalidatePath("/collections");
+  revalidatePath(`/collections/${collectionId}`);
+}
+
+export async function createCollection(
+  input: CollectionInput,
+  themeId?: string
+): Promise<CollectionResult> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { ok: false, errors: [{ field: "", message: "You must be signed in to create a collection." }] };
+  }
+
+  if (await isUserSuspended(supabase, user.id)) {
+    return { ok: false, errors: [{ field: "", message: SUSPENDED_MESSAGE }] };
+  }
+
+  const errors: ThemeFieldError[] = [];
+  const values = normalizeCollectionInput(input, errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const { data: collection, error } = await supabase
+    .from("collections")
+    .insert({ ...values, user_id: user.id })
+    .select("id")
+    .single();
+
+  if (error || !collection) {
+    console.error("Error creating collection:", error);
+    return { ok: false, errors: [{ field: "", message: "Failed to create collection. Please try again." }] };
+  }
+
+  // Created from a theme card: start the collection with that theme
+  if (themeId) {
+    const { error: addError } = await supabase
+      .from("collection_themes")
+      .insert({ collection_id: collection.id, theme_id: themeId, position: 0 });
+
+    if (addError) {
+      console.error("Error adding theme to new collection:", addError);
+    }
+  }
+
+  revalidatePath("/collections");
+
+  return { ok: true, collectionId: collection.id };
+}
+
+export async function updateCollection(
+  collectionId: string,
+  input: CollectionInput
+): Promise<CollectionResult> {
+  const supabase = await createClient();
+  const user = await requireUser(supabase);
+  await requireOwnedCollection(supabase, collectionId, user.id);
+
+  const errors: ThemeFieldError[] = [];
+  const values = normalizeCollectionInput(input, errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const { error } = await supabase
+    .from("collections")
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq("id", collectionId);
+
+  if (error) {
+    console.error("Error updating collection:", error);
+    return { ok: false, errors: [{ field: "", message: "Failed to update collection. Please try again." }] };
+  }
+
+  revalidatePath("/collections");
+  revalidatePath(`/collections/${collectionId}`);
+
+  return { ok: true, collectionId };
+}
+
+export async function deleteCollection(collectionId: string) {
+  const supabase = await createClient();
+  const user = await requireUser(supabase);
+  await requireOwnedCollection(supabase, collectionId, user.id);
+
+  const { error } = await supabase.from("collections").delete().eq("id", collectionId);
+
+  if (error) {
+    throw new Error("Failed to delete collection: " + error.message);
+  }
+
+  revalidatePath("/collections");
+}
+
+/** The current user's collections, flagged with whether each already holds the theme. */
+export async function getCollectionMemberships(themeId: string): Promise<CollectionMembership[]> {
+  const supabase = await createClient();
+  const user = await requireUser(supabase);
+
+  const { data: collections, error } = await supabase
+    .from("collections")
+    .select("id, name, is_public, collection_themes (theme_id)")
+    .eq("user_id", user.id)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    throw new Error("Failed to load collections: " + error.message);
+  }
+
+  return (collections || []).map((collection) => ({
+    id: collection.id,
+    name: collection.name,
+    is_public: collection.is_public,
+    hasTheme: (collection.collection_themes as { theme_id: string }[]).some(
+      (item) => item.theme_id === themeId
+    ),
+  }));
+}
+
+export async function addThemeToCollection(collectionId: string, themeId: string) {
+  const supabase = await createClient();
+  const user = await requireUser(supabase);
+  await requireOwnedCollection(supabase, collectionId, user.id);
+
+  const { data: items } = await supabase
+    .from("collection_themes")
+    .select("theme_id, position")
+    .eq("collection_id", collectionId);
+
+  if (items?.some((item) => item.theme_id === themeId)) return;
+
+  if ((items?.length ?? 0) >= MAX_COLLECTION_THEMES) {
+    throw new Error(`Collections can hold at most ${MAX_COLLECTION_THEMES} themes.`);
+  }
+
+  // New themes go to the end
+  const position = Math.max(-1, ...(items || []).map((item) => item.position as number)) + 1;
+
+  const { error } = await supabase
+    .from("collection_themes")
+    .upsert(
+      { collection_id: collectionId, theme_id: themeId, position },
+      { onConflict: "collection_id,theme_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw new Error("Failed to add theme: " + error.message);
+  }
+
+  await touchCollection(supabase, collectionId);
+}
+
+export async function removeThemeFromCollection(collectionId: string, themeId: string) {
+  const supabase = await createClient();
+  const user = await requireUser(supabase);
+  await requireOwnedCollection(supabase, collectionId, user.id);
+
+  const { error } = await supabase
+    .from("collection_themes")
+    .delete()
+    .eq("collection_id", collectionId)
+    .eq("theme_id", themeId);
+
+  if (error) {
+    throw new Error("Failed to remove theme: " + error.message);
+  }
+
+  await touchCollection(supabase, collectionId);
+}
+
+/** Saves a new order; themeIds must list exactly the collection's current themes. */
+export async function reorderCollection(collectionId: string, themeIds: string[]) {
+  const supabase = await createClient();
+  const user = await requireUser(supabase);
+  await requireOwnedCollection(supabase, collectionId, user.id);
+
+  const { data: items } = await supabase
+    .from("collection_themes")
+    .select("theme_id")
+    .eq("collection_id", collectionId);
+
+  const current = new Set((items || []).map((item) => item.theme_id as string));
+  if (themeIds.length !== current.size || themeIds.some((id) => !current.has(id))) {
+    throw new Error("The collection changed, please reload and try again.");
+  }
+
+  const { error } = await supabase.from("collection_themes").upsert(
+    themeIds.map((themeId, position) => ({ collection_id: collectionId, theme_id: themeId, position })),
+    { onConflict: "collection_id,theme_id" }
+  );
+
+  if (error) {
+    throw new Error("Failed to reorder collection: " + error.message);
+  }
+
+  await touchCollection(supabase, collectionId);
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ThemeFieldError } from "@/lib/themes/schema";
+import {
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  MAX_COLLECTION_NAME_LENGTH,
+} from "@/lib/themes/collections";
+import type { ThemeCollection } from "@/lib/themes/types";
+import { ThemeValidationErrors } from "@/components/themes/theme-validation-errors";
+import { createCollection, updateCollection } from "./actions";
+
+interface CollectionFormProps {
+  // Edits this collection; creates a new one when omitted
+  collection?: Pick<ThemeCollection, "id" | "name" | "description" | "is_public">;
+  onDone?: () => void;
+}
+
+export function CollectionForm({ collection, onDone }: CollectionFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState(collection?.name ?? "");
+  const [description, setDescription] = useState(collection?.description ?? "");
+  const [isPublic, setIsPublic] = useState(collection?.is_public ?? true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<ThemeFieldError[]>([]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      const input = { name, description, is_public: isPublic };
+      const result = collection
+        ? await updateCollection(collection.id, input)
+        : await createCollection(input);
+
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+
+      if (collection) {
+        onDone?.();
+        router.refresh();
+      } else {
+        router.push(`/collections/${result.collectionId}`);
+      }
+    } catch (error) {
+      console.error("Failed to save collection:", error);
+      setErrors([{ field: "", message: "Failed to save collection." }]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="upload-form collection-form">
+      <div className="form-group">
+        <label htmlFor="collection-name">Name *</label>
+        <input
+          type="text"
+          id="collection-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_COLLECTION_NAME_LENGTH}
+          required
+          className="form-input"
+          placeholder="High contrast picks"
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="collection-description">Description</label>
+        <textarea
+          id="collection-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={MAX_COLLECTION_DESCRIPTION_LENGTH}
+          rows={3}
+          className="form-input"
+        />
+      </div>
+
+      <label className="filter-checkbox">
+        <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+        Public
+      </label>
+      <small className="form-hint">
+        Anyone with the link can see a public collection. Private ones are only visible to you.
+      </small>
+
+      <ThemeValidationErrors errors={errors} title="Couldn't save this collection:" />
+
+      <div className="form-actions">
+        <button type="submit" disabled={isSubmitting} className="btn btn-primary">
+          {isSubmitting ? "Saving..." : collection ? "Save Changes" : "Create Collection"}
+        </button>
+        {onDone && (
+          <button type="button" onClick={onDone} disabled={isSubmitting} className="btn btn-ghost">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
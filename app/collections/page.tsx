@@ -0,0 +1,62 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUserCollections } from "@/lib/themes/queries";
+import { createClient } from "@/lib/supabase/server";
+import { CollectionForm } from "./collection-form";
+
+export const metadata: Metadata = {
+  title: "My Collections - Mira Themes",
+  robots: { index: false },
+};
+
+export default async function CollectionsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/themes?signin=true");
+  }
+
+  const collections = await getUserCollections(user.id, true);
+
+  return (
+    <main className="section page-enter">
+      <div className="container">
+        <h1 className="animate-fade-up">My Collections</h1>
+        <p className="muted-note animate-fade-up" style={{ animationDelay: "40ms" }}>
+          Group themes into curated sets you can share or download as one bundle.
+        </p>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "80ms" }}>
+          {collections.length === 0 ? (
+            <p className="muted-note">No collections yet. Create your first one below.</p>
+          ) : (
+            <ul className="theme-versions-list">
+              {collections.map((collection) => (
+                <li key={collection.id} className="theme-version-item">
+                  <Link href={`/collections/${collection.id}`} className="theme-version-number">
+                    {collection.name}
+                  </Link>
+                  <span className="theme-version-date">
+                    {collection.theme_count} {collection.theme_count === 1 ? "theme" : "themes"}
+                    {" · "}
+                    {collection.is_public ? "Public" : "Private"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "120ms" }}>
+          <h2>New Collection</h2>
+          <CollectionForm />
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -2,12 +2,8 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { UpdateSettingsActions } from "./update-settings-button";
-
-type ParsedSemver = {
-  major: number;
-  minor: number;
-  patch: number;
-};
+import { getMiraBridge, getMiraVersionFromUserAgent } from "@/lib/mira";
+import { compareSemver, parseSemver } from "@/lib/semver";
 
 type UpdateBannerProps = {
   latestVersion: string | null;
@@ -21,32 +17,10 @@ type DetectedInfo = {
   miraVersion: string | null;
 };
 
-function parseSemver(value: string): ParsedSemver | null {
-  const cleaned = value.trim().replace(/^v/i, "");
-  const numericPrefix = cleaned.match(/^[\d.]+/)?.[0] ?? cleaned;
-  const match = numericPrefix.match(/^(\d+)\.(\d+)\.(\d+)\b/);
-
-  if (!match) {
-    return null;
-  }
-
-  return {
-    major: Number(match[1]),
-    minor: Number(match[2]),
-    patch: Number(match[3]),
-  };
-}
-
-function compareSemver(a: ParsedSemver, b: ParsedSemver): number {
-  if (a.major !== b.major) return a.major - b.major;
-  if (a.minor !== b.minor) return a.minor - b.minor;
-  return a.patch - b.patch;
-}
-
 function detectFromUserAgent(userAgent: string): DetectedInfo {
-  const miraMatch = userAgent.match(/\bMira\/([\d.]+)\b/);
-  if (miraMatch) {
-    return { browserName: "Mira", browserVersion: miraMatch[1], miraVersion: miraMatch[1] };
+  const miraVersion = getMiraVersionFromUserAgent(userAgent);
+  if (miraVersion) {
+    return { browserName: "Mira", browserVersion: miraVersion, miraVersion };
   }
 
   const edgeMatch = userAgent.match(/\bEdg\/([\d.]+)\b/);
@@ -84,7 +58,7 @@ export function UpdateBanner({ latestVersion, settingsUrl, compact = false }: Up
       const ua = navigator.userAgent || "";
       const detectedFromUa = detectFromUserAgent(ua);
       const miraFromApi =
-        (window as unknown as { mira?: { version?: string } }).mira?.version ??
+        getMiraBridge()?.version ??
         (window as unknown as { electron?: { appVersion?: string } }).electron?.appVersion ??
         null;
 
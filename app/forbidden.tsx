@@ -0,0 +1,17 @@
+import Link from "next/link";
+
+export default function Forbidden() {
+  return (
+    <main className="section page-enter">
+      <div className="container narrow">
+        <div className="error-message">
+          <h1>Access Denied</h1>
+          <p>You don&apos;t have permission to view this page.</p>
+          <Link href="/" className="btn btn-primary">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -8,6 +8,7 @@ import { getLatestVersion } from "./lib/latest-version";
 import { UserMenu } from "@/components/auth/user-menu";
 import { getSiteUrl } from "@/lib/site-url";
 import { createClient } from "@/lib/supabase/server";
+import { getProfileRole, hasRole } from "@/lib/auth/admin";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -54,15 +55,15 @@ export default async function RootLayout({
   } = await supabase.auth.getUser();
   const latestVersion = await getLatestVersion();
 
-  // Check if user is admin
+  // Moderators and admins both get the admin link
   let isAdmin = false;
   if (user) {
     const { data: profile } = await supabase
       .from("profiles")
-      .select("is_admin")
+      .select("role, is_admin")
       .eq("id", user.id)
       .single();
-    isAdmin = profile?.is_admin || false;
+    isAdmin = hasRole(getProfileRole(profile), "moderator");
   }
 
   return (
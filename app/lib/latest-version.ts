@@ -1,4 +1,5 @@
 import { cache } from "react";
+import { compareSemver, parseSemver, type ParsedSemver } from "@/lib/semver";
 
 type GitHubRelease = {
   id: number;
@@ -10,37 +11,9 @@ type GitHubRelease = {
   draft: boolean;
 };
 
-type ParsedSemver = {
-  major: number;
-  minor: number;
-  patch: number;
-};
-
 const REPO_OWNER = "Mira-Studios";
 const REPO_NAME = "mira";
 
-function parseSemver(value: string): ParsedSemver | null {
-  const cleaned = value.trim().replace(/^v/i, "");
-  const numericPrefix = cleaned.match(/^[\d.]+/)?.[0] ?? cleaned;
-  const match = numericPrefix.match(/^(\d+)\.(\d+)\.(\d+)\b/);
-
-  if (!match) {
-    return null;
-  }
-
-  return {
-    major: Number(match[1]),
-    minor: Number(match[2]),
-    patch: Number(match[3]),
-  };
-}
-
-function compareSemver(a: ParsedSemver, b: ParsedSemver): number {
-  if (a.major !== b.major) return a.major - b.major;
-  if (a.minor !== b.minor) return a.minor - b.minor;
-  return a.patch - b.patch;
-}
-
 function getReleaseSemver(release: GitHubRelease): ParsedSemver | null {
   return parseSemver(release.tag_name) ?? parseSemver(release.name);
 }
@@ -0,0 +1,82 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getProfileByUsername, getLikedThemes, getLikedThemeIds } from "@/lib/themes/queries";
+import { createClient } from "@/lib/supabase/server";
+import { ThemeGrid } from "@/components/themes/theme-grid";
+import { getSiteUrl } from "@/lib/site-url";
+import { ProfileHeader } from "../profile-header";
+
+interface ProfileLikesPageProps {
+  params: Promise<{ username: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ProfileLikesPageProps): Promise<Metadata> {
+  const { username } = await params;
+  const profile = await getProfileByUsername(username);
+
+  if (!profile) {
+    return {
+      title: "Profile Not Found",
+    };
+  }
+
+  const displayName = profile.display_name || profile.username || "User";
+
+  return {
+    title: `Themes liked by ${displayName} - Mira Themes`,
+    description: `Themes ${displayName} has liked`,
+    alternates: {
+      canonical: `${getSiteUrl()}/profile/${username}/likes`,
+    },
+  };
+}
+
+export default async function ProfileLikesPage({ params }: ProfileLikesPageProps) {
+  const { username } = await params;
+  const [profile, supabase] = await Promise.all([
+    getProfileByUsername(username),
+    createClient(),
+  ]);
+
+  if (!profile) {
+    notFound();
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const isOwner = user && user.id === profile.id;
+  const themes = await getLikedThemes(profile.id);
+
+  // On your own page every theme is liked; otherwise show the viewer's likes
+  const likedIds = isOwner
+    ? themes.map((theme) => theme.id)
+    : user
+      ? await getLikedThemeIds(user.id, themes.map((theme) => theme.id))
+      : [];
+
+  // Use profile avatar or fall back to auth metadata avatar
+  const avatarUrl = profile.avatar_url || user?.user_metadata?.avatar_url;
+
+  return (
+    <main className="section page-enter">
+      <div className="container">
+        <ProfileHeader
+          profile={profile}
+          isOwner={!!isOwner}
+          canReport={!!user && !isOwner}
+          avatarUrl={avatarUrl}
+          activeTab="likes"
+        />
+
+        <div className="profile-themes animate-fade-up" style={{ animationDelay: "120ms" }}>
+          <h2>Liked Themes</h2>
+          <ThemeGrid themes={themes} likedIds={likedIds} signedIn={!!user} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,10 +1,15 @@
 import type { Metadata } from "next";
-import Link from "next/link";
 import { notFound } from "next/navigation";
-import { getProfileByUsername, getProfileThemes, getAllProfileThemes } from "@/lib/themes/queries";
+import {
+  getProfileByUsername,
+  getProfileThemes,
+  getAllProfileThemes,
+  getLikedThemeIds,
+} from "@/lib/themes/queries";
 import { createClient } from "@/lib/supabase/server";
 import { ThemeGrid } from "@/components/themes/theme-grid";
 import { getSiteUrl } from "@/lib/site-url";
+import { ProfileHeader } from "./profile-header";
 
 interface ProfilePageProps {
   params: Promise<{ username: string }>;
@@ -54,45 +59,25 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
   const themes = isOwner 
     ? await getAllProfileThemes(profile.id)
     : await getProfileThemes(profile.id);
-  const displayName = profile.display_name || profile.username || "User";
-  
+  const likedIds = user ? await getLikedThemeIds(user.id, themes.map((theme) => theme.id)) : [];
+
   // Use profile avatar or fall back to auth metadata avatar
   const avatarUrl = profile.avatar_url || user?.user_metadata?.avatar_url;
 
   return (
     <main className="section page-enter">
       <div className="container">
-        <div className="profile-header animate-fade-up">
-          <div className="profile-avatar">
-            {avatarUrl ? (
-              <img
-                src={avatarUrl}
-                alt={displayName}
-                className="profile-avatar-img"
-              />
-            ) : (
-              <div className="profile-avatar-fallback">
-                {displayName[0].toUpperCase()}
-              </div>
-            )}
-          </div>
-          <div className="profile-info">
-            <h1>{displayName}</h1>
-            {profile.username && (
-              <p className="profile-username">@{profile.username}</p>
-            )}
-            {profile.bio && <p className="profile-bio">{profile.bio}</p>}
-            {isOwner && (
-              <Link href="/profile/edit" className="btn btn-ghost">
-                Edit Profile
-              </Link>
-            )}
-          </div>
-        </div>
+        <ProfileHeader
+          profile={profile}
+          isOwner={!!isOwner}
+          canReport={!!user && !isOwner}
+          avatarUrl={avatarUrl}
+          activeTab="themes"
+        />
 
         <div className="profile-themes animate-fade-up" style={{ animationDelay: "120ms" }}>
           <h2>Themes</h2>
-          <ThemeGrid themes={themes} />
+          <ThemeGrid themes={themes} likedIds={likedIds} signedIn={!!user} />
         </div>
       </div>
     </main>
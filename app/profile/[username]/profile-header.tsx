@@ -0,0 +1,68 @@
+import Link from "next/link";
+import type { Profile } from "@/lib/themes/types";
+import { ReportButton } from "@/components/report-button";
+
+interface ProfileHeaderProps {
+  profile: Profile;
+  isOwner: boolean;
+  // Signed-in visitors other than the owner can report the profile
+  canReport: boolean;
+  avatarUrl?: string | null;
+  activeTab: "themes" | "likes";
+}
+
+export function ProfileHeader({
+  profile,
+  isOwner,
+  canReport,
+  avatarUrl,
+  activeTab,
+}: ProfileHeaderProps) {
+  const displayName = profile.display_name || profile.username || "User";
+  const basePath = `/profile/${profile.username}`;
+
+  return (
+    <>
+      <div className="profile-header animate-fade-up">
+        <div className="profile-avatar">
+          {avatarUrl ? (
+            <img
+              src={avatarUrl}
+              alt={displayName}
+              className="profile-avatar-img"
+            />
+          ) : (
+            <div className="profile-avatar-fallback">
+              {displayName[0].toUpperCase()}
+            </div>
+          )}
+        </div>
+        <div className="profile-info">
+          <h1>{displayName}</h1>
+          {profile.username && (
+            <p className="profile-username">@{profile.username}</p>
+          )}
+          {profile.bio && <p className="profile-bio">{profile.bio}</p>}
+          {isOwner && (
+            <Link href="/profile/edit" className="btn btn-ghost">
+              Edit Profile
+            </Link>
+          )}
+          {canReport && <ReportButton targetType="user" targetId={profile.id} label="Report user" />}
+        </div>
+      </div>
+
+      <nav className="profile-tabs animate-fade-up" style={{ animationDelay: "80ms" }}>
+        <Link href={basePath} className={`tag-filter ${activeTab === "themes" ? "active" : ""}`}>
+          Themes
+        </Link>
+        <Link
+          href={`${basePath}/likes`}
+          className={`tag-filter ${activeTab === "likes" ? "active" : ""}`}
+        >
+          Likes
+        </Link>
+      </nav>
+    </>
+  );
+}
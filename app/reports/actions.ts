@@ -0,0 +1,84 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { formatReportReason, type ReportInput, type ReportTargetType } from "@/lib/themes/reports";
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Owner of the reported content, or null when the target doesn't exist
+async function getTargetOwner(
+  supabase: SupabaseServerClient,
+  targetType: ReportTargetType,
+  targetId: string
+): Promise<string | null> {
+  if (targetType === "user") {
+    const { data } = await supabase.from("profiles").select("id").eq("id", targetId).single();
+    return data?.id ?? null;
+  }
+
+  if (targetType === "theme") {
+    const { data } = await supabase
+      .from("themes")
+      .select("id, user_id")
+      .eq("id", targetId)
+      .eq("status", "approved")
+      .single();
+    return data ? (data.user_id ?? "") : null;
+  }
+
+  const { data } = await supabase
+    .from("theme_comments")
+    .select("user_id, deleted_at")
+    .eq("id", targetId)
+    .single();
+  return data && !data.deleted_at ? data.user_id : null;
+}
+
+/**
+ * Files a report for the moderators. Each user has one report per target:
+ * reporting the same thing again only updates the reason.
+ */
+export async function submitReport(
+  targetType: ReportTargetType,
+  targetId: string,
+  input: ReportInput
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("You must be signed in to report content.");
+  }
+
+  const reason = formatReportReason(targetType, input);
+
+  const ownerId = await getTargetOwner(supabase, targetType, targetId);
+  if (ownerId === null) {
+    throw new Error("That content no longer exists.");
+  }
+  if (ownerId === user.id) {
+    throw new Error("You can't report your own content.");
+  }
+
+  const { error } = await supabase.from("reports").upsert(
+    {
+      reporter_id: user.id,
+      target_type: targetType,
+      target_id: targetId,
+      reason,
+      status: "open",
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: "reporter_id,target_type,target_id" }
+  );
+
+  if (error) {
+    throw new Error("Failed to send report: " + error.message);
+  }
+
+  revalidatePath("/admin/reports");
+}
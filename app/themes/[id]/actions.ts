@@ -2,6 +2,16 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { headers } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { parseThemeContent, serializeThemeContent, type ThemeFieldError } from "@/lib/themes/schema";
+import { validateVersionBump } from "@/lib/semver";
+import { refreshThemeCheckReport } from "@/lib/themes/queries";
+import { normalizeReview, type ThemeReviewInput } from "@/lib/themes/reviews";
+import { validateCommentBody } from "@/lib/themes/comments";
+import { SUSPENDED_MESSAGE, isUserSuspended } from "@/lib/auth/suspension";
+import { getMinContrastRatio } from "@/lib/themes/contrast";
+import { getSearchColors } from "@/lib/themes/palette";
+import type { ThemeSubmissionResult, ThemeUpdateInput } from "@/lib/themes/types";
 
 export async function incrementDownloadCount(themeId: string): Promise<boolean> {
   const supabase = await createClient();
@@ -79,3 +89,435 @@ export async function checkDownloadCooldown(themeId: string): Promise<{ canDownl
 
   return { canDownload: true };
 }
+
+const MAX_CHANGELOG_LENGTH = 2000;
+const MAX_NAME_LENGTH = 60;
+
+export async function updateTheme(
+  themeId: string,
+  input: ThemeUpdateInput
+): Promise<ThemeSubmissionResult> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { ok: false, errors: [{ field: "", message: "You must be signed in to update a theme." }] };
+  }
+
+  if (await isUserSuspended(supabase, user.id)) {
+    return { ok: false, errors: [{ field: "", message: SUSPENDED_MESSAGE }] };
+  }
+
+  const { data: theme } = await supabase
+    .from("themes")
+    .select("id, user_id, version, status, css_content, name, description")
+    .eq("id", themeId)
+    .single();
+
+  if (!theme || theme.user_id !== user.id) {
+    return { ok: false, errors: [{ field: "", message: "You can only update themes that you own." }] };
+  }
+
+  const errors: ThemeFieldError[] = [];
+
+  const content = parseThemeContent(input.css_content);
+  if (!content.ok) {
+    errors.push(...content.errors);
+  }
+  const cssContent = content.ok ? serializeThemeContent(content.data) : input.css_content;
+
+  // Content changes need a new version; metadata-only edits may keep it
+  const version = input.version.trim();
+  if (cssContent !== theme.css_content || version !== theme.version) {
+    const versionError = validateVersionBump(version, theme.version);
+    if (versionError) {
+      errors.push({ field: "version", message: versionError });
+    }
+  }
+
+  const name = input.name?.trim() ?? theme.name;
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    errors.push({ field: "name", message: `Theme name must be 1-${MAX_NAME_LENGTH} characters.` });
+  }
+  const description = input.description !== undefined ? input.description.trim() || null : theme.description;
+
+  const changelog = input.changelog?.trim() || null;
+  if (changelog && changelog.length > MAX_CHANGELOG_LENGTH) {
+    errors.push({
+      field: "changelog",
+      message: `Changelog must be at most ${MAX_CHANGELOG_LENGTH} characters.`,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // Approved themes stay live as they are until a moderator accepts the revision
+  if (theme.status === "approved") {
+    const revision = {
+      theme_id: themeId,
+      user_id: user.id,
+      name,
+      description,
+      version,
+      css_content: cssContent,
+      changelog,
+      status: "pending",
+    };
+
+    // Only one pending revision per theme: a newer submission replaces it
+    const { data: pending } = await supabase
+      .from("theme_revisions")
+      .select("id")
+      .eq("theme_id", themeId)
+      .eq("status", "pending")
+      .limit(1);
+
+    const { error: revisionError } = pending?.[0]
+      ? await supabase
+          .from("theme_revisions")
+          .update({ ...revision, created_at: new Date().toISOString() })
+          .eq("id", pending[0].id)
+      : await supabase.from("theme_revisions").insert(revision);
+
+    if (revisionError) {
+      console.error("Error saving revision:", revisionError);
+      return { ok: false, errors: [{ field: "", message: "Failed to submit update. Please try again." }] };
+    }
+
+    revalidatePath("/admin/review");
+    revalidatePath(`/themes/${themeId}`);
+
+    return { ok: true, themeId, pendingReview: true };
+  }
+
+  // Themes still in their first review are updated in place, and rejected
+  // themes go back into the review queue
+  const { error: themeError } = await supabase
+    .from("themes")
+    .update({
+      name,
+      description,
+      css_content: cssContent,
+      min_contrast_ratio: getMinContrastRatio(cssContent),
+      search_colors: getSearchColors(cssContent),
+      version,
+      status: "under_review",
+      rejection_reason: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", themeId);
+
+  if (themeError) {
+    console.error("Error updating theme:", themeError);
+    return { ok: false, errors: [{ field: "", message: "Failed to update theme. Please try again." }] };
+  }
+
+  if (version !== theme.version) {
+    // Save version history
+    const { error: versionInsertError } = await supabase.from("versions").insert({
+      theme_id: themeId,
+      version,
+      css_content: cssContent,
+      changelog,
+    });
+
+    if (versionInsertError) {
+      console.error("Error saving version history:", versionInsertError);
+    }
+  }
+
+  await refreshThemeCheckReport(themeId);
+
+  revalidatePath("/admin/review");
+  revalidatePath("/profile/[username]", "page");
+  revalidatePath(`/themes/${themeId}`);
+  revalidatePath(`/themes/${themeId}/versions`);
+
+  return { ok: true, themeId, pendingReview: true };
+}
+
+export async function saveThemeReview(
+  themeId: string,
+  input: ThemeReviewInput
+): Promise<{ ok: true } | { ok: false; errors: ThemeFieldError[] }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { ok: false, errors: [{ field: "", message: "You must be signed in to rate a theme." }] };
+  }
+
+  if (await isUserSuspended(supabase, user.id)) {
+    return { ok: false, errors: [{ field: "", message: SUSPENDED_MESSAGE }] };
+  }
+
+  const { data: theme } = await supabase
+    .from("themes")
+    .select("id, user_id")
+    .eq("id", themeId)
+    .eq("status", "approved")
+    .single();
+
+  if (!theme) {
+    return { ok: false, errors: [{ field: "", message: "Theme not found." }] };
+  }
+
+  if (theme.user_id === user.id) {
+    return { ok: false, errors: [{ field: "", message: "You can't rate your own theme." }] };
+  }
+
+  const errors: ThemeFieldError[] = [];
+  const { rating, body } = normalizeReview(input, errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // One review per user per theme: saving again edits it
+  const { error } = await supabase.from("theme_reviews").upsert(
+    {
+      theme_id: themeId,
+      user_id: user.id,
+      rating,
+      body,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "theme_id,user_id" }
+  );
+
+  if (error) {
+    console.error("Error saving review:", error);
+    return { ok: false, errors: [{ field: "", message: "Failed to save review. Please try again." }] };
+  }
+
+  revalidatePath("/themes");
+  revalidatePath(`/themes/${themeId}`);
+
+  return { ok: true };
+}
+
+export async function deleteOwnThemeReview(themeId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("You must be signed in to delete a review.");
+  }
+
+  const { error } = await supabase
+    .from("theme_reviews")
+    .delete()
+    .eq("theme_id", themeId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    throw new Error("Failed to delete review: " + error.message);
+  }
+
+  revalidatePath("/themes");
+  revalidatePath(`/themes/${themeId}`);
+}
+
+/**
+ * Sets whether the current user likes a theme. Takes the desired state rather
+ * than toggling, so repeated clicks or retries can't double count.
+ */
+export async function setThemeLike(
+  themeId: string,
+  liked: boolean
+): Promise<{ liked: boolean; likeCount: number | null }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("You must be signed in to like a theme.");
+  }
+
+  const { data: theme } = await supabase
+    .from("themes")
+    .select("id")
+    .eq("id", themeId)
+    .eq("status", "approved")
+    .single();
+
+  if (!theme) {
+    throw new Error("Theme not found");
+  }
+
+  // The (theme_id, user_id) unique key dedups concurrent likes
+  const { error } = liked
+    ? await supabase
+        .from("theme_likes")
+        .upsert(
+          { theme_id: themeId, user_id: user.id },
+          { onConflict: "theme_id,user_id", ignoreDuplicates: true }
+        )
+    : await supabase.from("theme_likes").delete().eq("theme_id", themeId).eq("user_id", user.id);
+
+  if (error) {
+    throw new Error("Failed to update like: " + error.message);
+  }
+
+  // A trigger keeps like_count in step with theme_likes
+  const { data: counted } = await supabase
+    .from("themes")
+    .select("like_count")
+    .eq("id", themeId)
+    .single();
+
+  revalidatePath("/profile/[username]/likes", "page");
+
+  return { liked, likeCount: counted?.like_count ?? null };
+}
+
+export type CommentResult = { ok: true } | { ok: false; error: string };
+
+export async function postComment(
+  themeId: string,
+  body: string,
+  parentId?: string
+): Promise<CommentResult> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { ok: false, error: "You must be signed in to comment." };
+  }
+
+  if (await isUserSuspended(supabase, user.id)) {
+    return { ok: false, error: SUSPENDED_MESSAGE };
+  }
+
+  const validated = validateCommentBody(body);
+  if ("error" in validated) {
+    return { ok: false, error: validated.error };
+  }
+
+  const { data: theme } = await supabase
+    .from("themes")
+    .select("id")
+    .eq("id", themeId)
+    .eq("status", "approved")
+    .single();
+
+  if (!theme) {
+    return { ok: false, error: "Theme not found." };
+  }
+
+  if (parentId) {
+    const { data: parent } = await supabase
+      .from("theme_comments")
+      .select("id, theme_id, deleted_at")
+      .eq("id", parentId)
+      .single();
+
+    if (!parent || parent.theme_id !== themeId || parent.deleted_at) {
+      return { ok: false, error: "The comment you replied to no longer exists." };
+    }
+  }
+
+  const { error } = await supabase.from("theme_comments").insert({
+    theme_id: themeId,
+    user_id: user.id,
+    parent_id: parentId ?? null,
+    body: validated.body,
+  });
+
+  if (error) {
+    console.error("Error posting comment:", error);
+    return { ok: false, error: "Failed to post comment. Please try again." };
+  }
+
+  revalidatePath(`/themes/${themeId}`);
+
+  return { ok: true };
+}
+
+export async function editComment(commentId: string, body: string): Promise<CommentResult> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { ok: false, error: "You must be signed in to edit a comment." };
+  }
+
+  if (await isUserSuspended(supabase, user.id)) {
+    return { ok: false, error: SUSPENDED_MESSAGE };
+  }
+
+  const validated = validateCommentBody(body);
+  if ("error" in validated) {
+    return { ok: false, error: validated.error };
+  }
+
+  const { data: comment } = await supabase
+    .from("theme_comments")
+    .select("id, theme_id, user_id, deleted_at")
+    .eq("id", commentId)
+    .single();
+
+  if (!comment || comment.user_id !== user.id || comment.deleted_at) {
+    return { ok: false, error: "You can only edit your own comments." };
+  }
+
+  const { error } = await supabase
+    .from("theme_comments")
+    .update({ body: validated.body, updated_at: new Date().toISOString() })
+    .eq("id", commentId);
+
+  if (error) {
+    console.error("Error editing comment:", error);
+    return { ok: false, error: "Failed to save comment. Please try again." };
+  }
+
+  revalidatePath(`/themes/${comment.theme_id}`);
+
+  return { ok: true };
+}
+
+export async function deleteOwnComment(commentId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error("You must be signed in to delete a comment.");
+  }
+
+  // Soft delete so replies keep their place in the thread
+  const { data: comment, error } = await supabase
+    .from("theme_comments")
+    .update({ body: "", deleted_at: new Date().toISOString() })
+    .eq("id", commentId)
+    .eq("user_id", user.id)
+    .select("theme_id")
+    .single();
+
+  if (error || !comment) {
+    throw new Error("Failed to delete comment");
+  }
+
+  revalidatePath(`/themes/${comment.theme_id}`);
+}
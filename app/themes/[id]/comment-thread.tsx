@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { MAX_COMMENT_INDENT, MAX_COMMENT_LENGTH, type CommentNode } from "@/lib/themes/comments";
+import type { ReportInput } from "@/lib/themes/reports";
+import { MarkdownLite } from "@/components/markdown-lite";
+import { ReportForm } from "@/components/report-form";
+import { removeComment } from "@/app/admin/review/actions";
+import { submitReport } from "@/app/reports/actions";
+import {
+  deleteOwnComment,
+  editComment,
+  postComment,
+  type CommentResult,
+} from "./actions";
+
+interface CommentThreadProps {
+  themeId: string;
+  themeOwnerId: string | null;
+  comments: CommentNode[];
+  currentUserId: string | null;
+  isModerator: boolean;
+  // Open reports per comment id; only passed to moderators
+  reportCounts: Record<string, number>;
+}
+
+interface CommentComposerProps {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<CommentResult>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({
+  initialValue = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const [body, setBody] = useState(initialValue);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPending(true);
+    setError(null);
+    try {
+      const result = await onSubmit(body);
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setBody("");
+    } catch (err) {
+      console.error("Failed to save comment:", err);
+      setError("Failed to save comment.");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="comment-composer">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={3}
+        className="form-input"
+        placeholder={placeholder}
+        aria-label={placeholder}
+      />
+      <small className="form-hint">
+        Supports **bold**, *italic*, `code`, [links](https://...) and &quot;- &quot; lists.
+      </small>
+      {error && (
+        <p className="comment-error" role="alert">
+          {error}
+        </p>
+      )}
+      <div className="review-form-actions">
+        <button type="submit" disabled={isPending || !body.trim()} className="btn btn-primary">
+          {isPending ? "Saving..." : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={isPending} className="btn btn-ghost">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps extends Omit<CommentThreadProps, "comments"> {
+  comment: CommentNode;
+  depth: number;
+}
+
+function CommentItem({ comment, depth, ...thread }: CommentItemProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<"view" | "reply" | "edit" | "report">("view");
+  const [isPending, setIsPending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isDeleted = !!comment.deleted_at;
+  const isMine = thread.currentUserId === comment.user_id;
+  const author = comment.profiles;
+  const authorName = author?.display_name || author?.username || "Unknown";
+  const reports = thread.reportCounts[comment.id] ?? 0;
+  const wasEdited =
+    new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 60_000;
+
+  const afterSave = (result: CommentResult) => {
+    if (result.ok) {
+      setMode("view");
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleDelete = async () => {
+    if (!confirm("Delete this comment?")) return;
+    setIsPending(true);
+    try {
+      await deleteOwnComment(comment.id);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to delete comment:", error);
+      alert("Failed to delete comment");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    const reason = prompt("Remove this comment? Enter a reason for the audit log (optional):");
+    if (reason === null) return;
+    setIsPending(true);
+    try {
+      await removeComment(comment.id, reason);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to remove comment:", error);
+      alert("Failed to remove comment");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleReport = async (report: ReportInput) => {
+    setIsPending(true);
+    try {
+      await submitReport("comment", comment.id, report);
+      setMode("view");
+      setNotice("Thanks, the moderators will take a look.");
+    } catch (error) {
+      console.error("Failed to report comment:", error);
+      alert(error instanceof Error ? error.message : "Failed to report comment");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <li className="comment" id={`comment-${comment.id}`}>
+      <div className="comment-header">
+        {isDeleted ? (
+          <span className="comment-author muted-note">[deleted]</span>
+        ) : (
+          <span className="comment-author">
+            {author?.username ? (
+              <Link href={`/profile/${author.username}`}>{authorName}</Link>
+            ) : (
+              authorName
+            )}
+          </span>
+        )}
+        {!isDeleted && comment.user_id === thread.themeOwnerId && (
+          <span className="status-badge comment-author-badge">Author</span>
+        )}
+        <span className="theme-version-date">
+          {new Date(comment.created_at).toLocaleDateString()}
+          {wasEdited && !isDeleted && " (edited)"}
+        </span>
+        {thread.isModerator && reports > 0 && (
+          <span className="status-badge rejected">
+            {reports} {reports === 1 ? "report" : "reports"}
+          </span>
+        )}
+      </div>
+
+      {mode === "edit" ? (
+        <CommentComposer
+          initialValue={comment.body}
+          placeholder="Edit your comment"
+          submitLabel="Save"
+          onSubmit={async (body) => afterSave(await editComment(comment.id, body))}
+          onCancel={() => setMode("view")}
+        />
+      ) : isDeleted ? (
+        <p className="comment-body muted-note">This comment was deleted.</p>
+      ) : (
+        <MarkdownLite source={comment.body} className="comment-body" />
+      )}
+
+      {!isDeleted && mode === "view" && (
+        <div className="comment-actions">
+          {thread.currentUserId && (
+            <button type="button" onClick={() => setMode("reply")} className="admin-link">
+              Reply
+            </button>
+          )}
+          {isMine && (
+            <>
+              <button type="button" onClick={() => setMode("edit")} className="admin-link">
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isPending}
+                className="admin-link admin-link-danger"
+              >
+                Delete
+              </button>
+            </>
+          )}
+          {thread.currentUserId && !isMine && (
+            <button type="button" onClick={() => setMode("report")} className="admin-link">
+              Report
+            </button>
+          )}
+          {thread.isModerator && !isMine && (
+            <button
+              type="button"
+              onClick={handleRemove}
+              disabled={isPending}
+              className="admin-link admin-link-danger"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+
+      {notice && <p className="muted-note">{notice}</p>}
+
+      {mode === "reply" && (
+        <CommentComposer
+          placeholder={`Reply to ${authorName}`}
+          submitLabel="Reply"
+          onSubmit={async (body) => afterSave(await postComment(thread.themeId, body, comment.id))}
+          onCancel={() => setMode("view")}
+        />
+      )}
+
+      {mode === "report" && (
+        <ReportForm
+          id={comment.id}
+          targetType="comment"
+          isPending={isPending}
+          onSubmit={handleReport}
+          onCancel={() => setMode("view")}
+        />
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul className={`comment-list ${depth < MAX_COMMENT_INDENT ? "comment-replies" : ""}`}>
+          {comment.replies.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} depth={depth + 1} {...thread} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function CommentThread({ comments, ...thread }: CommentThreadProps) {
+  const router = useRouter();
+
+  return (
+    <div className="comment-thread">
+      {thread.currentUserId ? (
+        <CommentComposer
+          placeholder="Ask a question, suggest a change or report a bug"
+          submitLabel="Post Comment"
+          onSubmit={async (body) => {
+            const result = await postComment(thread.themeId, body);
+            if (result.ok) router.refresh();
+            return result;
+          }}
+        />
+      ) : (
+        <p className="muted-note">
+          <Link href="/themes?signin=true">Sign in</Link> to join the discussion.
+        </p>
+      )}
+
+      {comments.length === 0 ? (
+        <p className="muted-note">No comments yet.</p>
+      ) : (
+        <ul className="comment-list">
+          {comments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} depth={0} {...thread} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
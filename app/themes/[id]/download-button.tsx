@@ -1,7 +1,14 @@
 "use client";
 
-import { useTransition, useRef } from "react";
+import { useTransition, useRef, useSyncExternalStore } from "react";
 import { incrementDownloadCount } from "./actions";
+import {
+  buildMiraThemeFile,
+  buildThemeInstallUrl,
+  getMiraBridge,
+  getThemeFileName,
+  isMiraBrowser,
+} from "@/lib/mira";
 
 interface DownloadButtonProps {
   themeId: string;
@@ -9,44 +16,84 @@ interface DownloadButtonProps {
   authorName: string;
   version: string;
   cssContent: string;
+  // Mira installs by theme id, which always resolves to the current version
+  installable?: boolean;
 }
 
-export function DownloadButton({ themeId, themeName, authorName, version, cssContent }: DownloadButtonProps) {
+// Detection never changes while the page is open, so there is nothing to subscribe to
+const subscribeToNothing = () => () => {};
+
+export function DownloadButton({
+  themeId,
+  themeName,
+  authorName,
+  version,
+  cssContent,
+  installable = true,
+}: DownloadButtonProps) {
   const [isPending, startTransition] = useTransition();
   const linkRef = useRef<HTMLAnchorElement>(null);
+  const inMira = useSyncExternalStore(subscribeToNothing, isMiraBrowser, () => false);
 
   // Build download URL from theme data
-  const themeData = JSON.parse(cssContent || "{}");
-  const outputJson = {
+  const outputJson = buildMiraThemeFile({
     name: themeName,
     author: authorName,
-    version: version,
-    mode: themeData.mode || "dark",
-    fonts: themeData.fonts || {},
-    colors: themeData.colors || {},
-  };
+    version,
+    cssContent,
+  });
   const jsonString = JSON.stringify(outputJson, null, 2);
   const downloadUrl = `data:application/json;charset=utf-8,${encodeURIComponent(jsonString)}`;
-  const downloadName = `${themeName.toLowerCase().replace(/\s+/g, "-")}.json`;
+  const downloadName = getThemeFileName(themeName);
 
   const handleClick = () => {
     startTransition(async () => {
       // Try to increment count - will only succeed if not on cooldown
       await incrementDownloadCount(themeId);
-      
+
       // Always trigger the download
       linkRef.current?.click();
     });
   };
 
+  const handleInstall = () => {
+    startTransition(async () => {
+      await incrementDownloadCount(themeId);
+
+      // Prefer the in-page bridge, then the deep link, then a plain download
+      const bridge = getMiraBridge();
+      if (bridge?.installTheme) {
+        try {
+          const installed = await bridge.installTheme(outputJson);
+          if (installed !== false) return;
+        } catch (error) {
+          console.error("Mira bridge install failed:", error);
+        }
+        linkRef.current?.click();
+        return;
+      }
+
+      window.location.href = buildThemeInstallUrl(themeId, window.location.origin);
+    });
+  };
+
   const buttonText = isPending ? "Downloading..." : "Download";
 
   return (
     <>
+      {inMira && installable && (
+        <button
+          onClick={handleInstall}
+          disabled={isPending}
+          className="btn btn-primary"
+        >
+          {isPending ? "Installing..." : "Install in Mira"}
+        </button>
+      )}
       <button
         onClick={handleClick}
         disabled={isPending}
-        className="btn btn-primary"
+        className={inMira && installable ? "btn btn-ghost" : "btn btn-primary"}
       >
         {buttonText}
       </button>
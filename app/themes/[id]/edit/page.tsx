@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound, redirect } from "next/navigation";
-import { getThemeById } from "@/lib/themes/queries";
+import { getLatestRevision, getOwnedThemeById, getThemeById } from "@/lib/themes/queries";
 import { createClient } from "@/lib/supabase/server";
 import { UpdateThemeForm } from "@/components/themes/update-theme-form";
 import { getSiteUrl } from "@/lib/site-url";
@@ -42,23 +42,23 @@ export default async function UpdateThemePage({ params }: EditThemePageProps) {
     redirect("/themes?signin=true");
   }
 
-  const theme = await getThemeById(id);
+  const theme = await getOwnedThemeById(id, user.id);
 
+  // Check ownership
   if (!theme) {
-    notFound();
-  }
+    const publicTheme = await getThemeById(id);
 
-  // Check ownership
-  const isOwner = theme.user_id === user.id;
+    if (!publicTheme) {
+      notFound();
+    }
 
-  if (!isOwner) {
     return (
       <main className="section page-enter">
         <div className="container narrow">
           <div className="error-message">
             <h1>Access Denied</h1>
             <p>You can only update themes that you own.</p>
-            <Link href={`/themes/${theme.id}`} className="btn btn-primary">
+            <Link href={`/themes/${publicTheme.id}`} className="btn btn-primary">
               Back to Theme
             </Link>
           </div>
@@ -67,13 +67,41 @@ export default async function UpdateThemePage({ params }: EditThemePageProps) {
     );
   }
 
+  const latestRevision = await getLatestRevision(theme.id);
+  const isRejected = theme.status === "rejected";
+
   return (
     <main className="section page-enter">
       <div className="container narrow">
-        <h1 className="animate-fade-up">Update Theme</h1>
+        <h1 className="animate-fade-up">{isRejected ? "Resubmit Theme" : "Update Theme"}</h1>
         <p className="muted-note animate-fade-up" style={{ animationDelay: "80ms" }}>
           Upload a new JSON file to update the theme. Name and author will remain unchanged.
+          Updates are reviewed before they go live.
         </p>
+        {isRejected && (
+          <div className="notice animate-fade-up" style={{ animationDelay: "120ms" }}>
+            This theme was rejected
+            {theme.rejection_reason ? `: ${theme.rejection_reason}` : "."} Fix the issues and
+            upload a new version to send it back for review.
+          </div>
+        )}
+        {theme.status === "under_review" && (
+          <div className="notice animate-fade-up" style={{ animationDelay: "120ms" }}>
+            This theme is waiting for review. Changes made now are included in the review.
+          </div>
+        )}
+        {latestRevision?.status === "pending" && (
+          <div className="notice animate-fade-up" style={{ animationDelay: "120ms" }}>
+            v{latestRevision.version} is already waiting for review. Submitting again will
+            replace it.
+          </div>
+        )}
+        {latestRevision?.status === "rejected" && (
+          <div className="notice animate-fade-up" style={{ animationDelay: "120ms" }}>
+            Your update to v{latestRevision.version} was rejected
+            {latestRevision.rejection_reason ? `: ${latestRevision.rejection_reason}` : "."}
+          </div>
+        )}
 
         <div className="upload-form-wrapper animate-fade-up" style={{ animationDelay: "160ms" }}>
           <UpdateThemeForm theme={theme} />
@@ -1,11 +1,31 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { getThemeById, getThemeVersions } from "@/lib/themes/queries";
+import {
+  getLikedThemeIds,
+  getOpenReportCounts,
+  getPendingRevision,
+  getThemeComments,
+  getThemeById,
+  getThemeRemixes,
+  getThemeReviews,
+  getThemeVersions,
+} from "@/lib/themes/queries";
+import { getProfileRole, hasRole } from "@/lib/auth/admin";
 import { createClient } from "@/lib/supabase/server";
 import { getSiteUrl } from "@/lib/site-url";
 import { DownloadButton } from "./download-button";
 import { ThemePreview } from "@/components/themes/theme-preview";
+import { MarkdownLite } from "@/components/markdown-lite";
+import { ContrastPanel } from "@/components/themes/contrast-panel";
+import { StarRating } from "@/components/themes/star-rating";
+import { LikeButton } from "@/components/themes/like-button";
+import { AddToCollection } from "@/components/themes/add-to-collection";
+import { ReviewForm } from "./review-form";
+import { CommentThread } from "./comment-thread";
+import { buildCommentTree } from "@/lib/themes/comments";
+import { AdminDeleteReviewButton } from "@/app/admin/AdminDeleteReviewButton";
+import { ReportButton } from "@/components/report-button";
 
 interface ThemeDetailPageProps {
   params: Promise<{ id: string }>;
@@ -34,9 +54,12 @@ export async function generateMetadata({
 
 export default async function ThemeDetailPage({ params }: ThemeDetailPageProps) {
   const { id } = await params;
-  const [theme, versions, supabase] = await Promise.all([
+  const [theme, versions, remixes, reviews, comments, supabase] = await Promise.all([
     getThemeById(id),
     getThemeVersions(id),
+    getThemeRemixes(id),
+    getThemeReviews(id),
+    getThemeComments(id),
     createClient(),
   ]);
 
@@ -44,11 +67,30 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
     notFound();
   }
 
+  const forkedFrom = theme.forked_from ? await getThemeById(theme.forked_from) : null;
+
   const {
     data: { user },
   } = await supabase.auth.getUser();
 
   const isOwner = user && theme.user_id === user.id;
+  const pendingRevision = isOwner ? await getPendingRevision(theme.id) : null;
+  const liked = user ? (await getLikedThemeIds(user.id, [theme.id])).length > 0 : false;
+  const ownReview = user ? reviews.find((review) => review.user_id === user.id) : undefined;
+
+  let isModerator = false;
+  if (user) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role, is_admin")
+      .eq("id", user.id)
+      .single();
+    isModerator = hasRole(getProfileRole(profile), "moderator");
+  }
+
+  const reportCounts = isModerator
+    ? await getOpenReportCounts("comment", comments.map((comment) => comment.id))
+    : {};
   const authorUsername = theme.profiles?.username;
   const authorDisplayName = theme.profiles?.display_name || theme.author_name;
 
@@ -67,6 +109,19 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
                   theme.author_name
                 )}
               </p>
+              {forkedFrom && (
+                <p className="theme-detail-remix">
+                  Remixed from{" "}
+                  <Link href={`/themes/${forkedFrom.id}`}>{forkedFrom.name}</Link> by{" "}
+                  {forkedFrom.profiles?.username ? (
+                    <Link href={`/profile/${forkedFrom.profiles.username}`}>
+                      {forkedFrom.profiles.display_name || forkedFrom.author_name}
+                    </Link>
+                  ) : (
+                    forkedFrom.author_name
+                  )}
+                </p>
+              )}
               {theme.description && (
                 <p className="theme-detail-description">{theme.description}</p>
               )}
@@ -92,6 +147,19 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
                 version={theme.version}
                 cssContent={theme.css_content}
               />
+              <LikeButton
+                themeId={theme.id}
+                initialLiked={liked}
+                initialCount={theme.like_count ?? 0}
+                signedIn={!!user}
+                className="btn btn-ghost"
+              />
+              {user && (
+                <AddToCollection themeId={theme.id} themeName={theme.name} className="btn btn-ghost" />
+              )}
+              <Link href={`/themes/create?remix=${theme.id}`} className="btn btn-ghost">
+                Remix
+              </Link>
               {isOwner && (
                 <Link
                   href={`/themes/${theme.id}/edit`}
@@ -100,9 +168,27 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
                   Update Theme
                 </Link>
               )}
+              {isOwner && (
+                <Link href={`/themes/${theme.id}/stats`} className="btn btn-ghost">
+                  Stats
+                </Link>
+              )}
             </div>
           </div>
 
+          {user && !isOwner && (
+            <div className="theme-detail-report">
+              <ReportButton targetType="theme" targetId={theme.id} label="Report this theme" />
+            </div>
+          )}
+
+          {pendingRevision && (
+            <div className="notice">
+              Your update to v{pendingRevision.version} is waiting for review. The current
+              version stays public until it is approved.
+            </div>
+          )}
+
           {theme.preview_image_url && (
             <div className="theme-detail-preview">
               <img
@@ -118,6 +204,12 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
               <span className="theme-meta-label">Downloads</span>
               <span className="theme-meta-value">{theme.download_count}</span>
             </div>
+            <div className="theme-meta-item">
+              <span className="theme-meta-label">Rating</span>
+              <span className="theme-meta-value">
+                <StarRating rating={theme.rating_average} count={theme.rating_count ?? 0} />
+              </span>
+            </div>
             <div className="theme-meta-item">
               <span className="theme-meta-label">Created</span>
               <span className="theme-meta-value">
@@ -132,11 +224,21 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
 
           {versions.length > 0 && (
             <div className="theme-versions">
-              <h2>Version History</h2>
+              <div className="theme-versions-header">
+                <h2>Version History</h2>
+                <Link href={`/themes/${theme.id}/versions`} className="admin-link">
+                  Compare &amp; download
+                </Link>
+              </div>
               <ul className="theme-versions-list">
                 {versions.map((v) => (
-                  <li key={v.id} className="theme-version-item">
-                    <span className="theme-version-number">{v.version}</span>
+                  <li key={v.id} className="theme-version-item theme-version-item-full">
+                    <div className="theme-version-summary">
+                      <span className="theme-version-number">{v.version}</span>
+                      {v.changelog && (
+                        <MarkdownLite source={v.changelog} className="theme-version-changelog" />
+                      )}
+                    </div>
                     <span className="theme-version-date">
                       {new Date(v.created_at).toLocaleDateString()}
                     </span>
@@ -146,10 +248,83 @@ export default async function ThemeDetailPage({ params }: ThemeDetailPageProps)
             </div>
           )}
 
+          {remixes.length > 0 && (
+            <div className="theme-versions">
+              <h2>Remixes</h2>
+              <ul className="theme-versions-list">
+                {remixes.map((remix) => (
+                  <li key={remix.id} className="theme-version-item">
+                    <Link href={`/themes/${remix.id}`} className="theme-version-number">
+                      {remix.name}
+                    </Link>
+                    <span className="theme-version-date">by {remix.author_name}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="theme-detail-preview-section">
             <h2>Preview</h2>
             <ThemePreview cssContent={theme.css_content} />
           </div>
+
+          <ContrastPanel cssContent={theme.css_content} />
+
+          <div className="theme-versions theme-reviews">
+            <h2>Reviews</h2>
+            {!user ? (
+              <p className="muted-note">
+                <Link href="/themes?signin=true">Sign in</Link> to rate this theme.
+              </p>
+            ) : (
+              !isOwner && (
+                <ReviewForm
+                  themeId={theme.id}
+                  existing={ownReview ? { rating: ownReview.rating, body: ownReview.body } : null}
+                />
+              )
+            )}
+            {reviews.length === 0 ? (
+              <p className="muted-note">No reviews yet.</p>
+            ) : (
+              <ul className="theme-reviews-list">
+                {reviews.map((review) => (
+                  <li key={review.id} className="theme-review">
+                    <div className="theme-review-header">
+                      <StarRating rating={review.rating} />
+                      <span className="theme-review-author">
+                        {review.profiles?.username ? (
+                          <Link href={`/profile/${review.profiles.username}`}>
+                            {review.profiles.display_name || review.profiles.username}
+                          </Link>
+                        ) : (
+                          "Anonymous"
+                        )}
+                      </span>
+                      <span className="theme-version-date">
+                        {new Date(review.updated_at).toLocaleDateString()}
+                      </span>
+                      {isModerator && <AdminDeleteReviewButton reviewId={review.id} />}
+                    </div>
+                    {review.body && <p className="theme-review-body">{review.body}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="theme-versions" id="comments">
+            <h2>Comments</h2>
+            <CommentThread
+              themeId={theme.id}
+              themeOwnerId={theme.user_id}
+              comments={buildCommentTree(comments)}
+              currentUserId={user?.id ?? null}
+              isModerator={isModerator}
+              reportCounts={reportCounts}
+            />
+          </div>
         </div>
       </div>
     </main>
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ThemeFieldError } from "@/lib/themes/schema";
+import { MAX_RATING, MAX_REVIEW_LENGTH } from "@/lib/themes/reviews";
+import { ThemeValidationErrors } from "@/components/themes/theme-validation-errors";
+import { deleteOwnThemeReview, saveThemeReview } from "./actions";
+
+interface ReviewFormProps {
+  themeId: string;
+  existing: { rating: number; body: string | null } | null;
+}
+
+export function ReviewForm({ themeId, existing }: ReviewFormProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(!existing);
+  const [isPending, setIsPending] = useState(false);
+  const [rating, setRating] = useState(existing?.rating ?? 0);
+  const [body, setBody] = useState(existing?.body ?? "");
+  const [errors, setErrors] = useState<ThemeFieldError[]>([]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPending(true);
+    setErrors([]);
+    try {
+      const result = await saveThemeReview(themeId, { rating, body });
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+      setIsEditing(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to save review:", error);
+      setErrors([{ field: "", message: "Failed to save review." }]);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm("Delete your review?")) return;
+    setIsPending(true);
+    try {
+      await deleteOwnThemeReview(themeId);
+      setRating(0);
+      setBody("");
+      setIsEditing(true);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to delete review:", error);
+      alert("Failed to delete review");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="review-form-actions">
+        <button type="button" onClick={() => setIsEditing(true)} className="admin-link">
+          Edit your review
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={isPending}
+          className="admin-link admin-link-danger"
+        >
+          Delete
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="review-form">
+      <div className="review-form-stars" role="radiogroup" aria-label="Rating">
+        {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={`${value} star${value === 1 ? "" : "s"}`}
+            onClick={() => setRating(value)}
+            className={`review-form-star ${value <= rating ? "active" : ""}`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_REVIEW_LENGTH}
+        rows={3}
+        className="form-input"
+        placeholder="What do you like about this theme? (optional)"
+        aria-label="Review"
+      />
+      <div className="review-form-actions">
+        <button type="submit" disabled={isPending || rating === 0} className="btn btn-primary">
+          {isPending ? "Saving..." : existing ? "Update Review" : "Post Review"}
+        </button>
+        {existing && (
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            disabled={isPending}
+            className="btn btn-ghost"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      <ThemeValidationErrors errors={errors} title="Couldn't save your review:" />
+    </form>
+  );
+}
@@ -0,0 +1,139 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { forbidden, notFound, redirect } from "next/navigation";
+import { getOwnedThemeById, getThemeById, getThemeVersions } from "@/lib/themes/queries";
+import { createClient } from "@/lib/supabase/server";
+import { ANALYTICS_RANGES, getThemeStats, parseAnalyticsParams } from "@/lib/analytics";
+import { BarChart } from "@/components/bar-chart";
+
+interface ThemeStatsPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ range?: string; bucket?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Theme Stats - Mira Theme",
+  robots: { index: false },
+};
+
+export default async function ThemeStatsPage({ params, searchParams }: ThemeStatsPageProps) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/themes?signin=true");
+  }
+
+  const theme = await getOwnedThemeById(id, user.id);
+
+  // Stats are for the author only
+  if (!theme) {
+    if (await getThemeById(id)) {
+      forbidden();
+    }
+    notFound();
+  }
+
+  const { days, bucket } = parseAnalyticsParams(await searchParams);
+  const versions = await getThemeVersions(theme.id);
+  const stats = await getThemeStats(supabase, theme, versions, { days, bucket });
+  const maxVersionDownloads = Math.max(1, ...stats.perVersion.map((v) => v.downloads));
+
+  return (
+    <main className="section page-enter">
+      <div className="container">
+        <div className="review-header">
+          <h1 className="animate-fade-up">{theme.name} Stats</h1>
+          <Link href={`/themes/${theme.id}`} className="btn btn-ghost">
+            Back to Theme
+          </Link>
+        </div>
+
+        <div className="admin-stats animate-fade-up" style={{ animationDelay: "40ms" }}>
+          <div className="stat-card">
+            <h3>{stats.totalDownloads}</h3>
+            <p>Lifetime Downloads</p>
+          </div>
+          <div className="stat-card">
+            <h3>{stats.uniqueDownloaders}</h3>
+            <p>Unique Downloaders</p>
+          </div>
+          <div className="stat-card">
+            <h3>{stats.downloads.reduce((sum, point) => sum + point.count, 0)}</h3>
+            <p>Last {days} Days</p>
+          </div>
+        </div>
+
+        <form method="get" className="admin-filters animate-fade-up" style={{ animationDelay: "80ms" }}>
+          <label>
+            Window
+            <select name="range" defaultValue={String(days)} className="filter-select">
+              {ANALYTICS_RANGES.map((range) => (
+                <option key={range} value={range}>
+                  Last {range} days
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Group by
+            <select name="bucket" defaultValue={bucket} className="filter-select">
+              <option value="day">Day</option>
+              <option value="week">Week</option>
+            </select>
+          </label>
+          <button type="submit" className="btn btn-primary">
+            Update
+          </button>
+        </form>
+
+        <div className="animate-fade-up" style={{ animationDelay: "120ms" }}>
+          <BarChart title="Downloads" points={stats.downloads} />
+        </div>
+
+        <section className="admin-section animate-fade-up" style={{ animationDelay: "160ms" }}>
+          <h2>Downloads per Version</h2>
+          <p className="muted-note">
+            Each download counts toward the version that was live at the time.
+          </p>
+          <ul className="theme-stats-versions">
+            {stats.perVersion.map((v) => (
+              <li key={v.version}>
+                <span className="theme-version-number">{v.version}</span>
+                <span className="theme-stats-bar">
+                  <span style={{ width: `${(v.downloads / maxVersionDownloads) * 100}%` }} />
+                </span>
+                <span>{v.downloads}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        {stats.tagRanks.length > 0 && (
+          <section className="admin-section animate-fade-up" style={{ animationDelay: "200ms" }}>
+            <h2>Rank in Tags</h2>
+            {theme.status !== "approved" && (
+              <p className="muted-note">Ranks apply once the theme is approved.</p>
+            )}
+            <ul className="theme-versions-list">
+              {stats.tagRanks.map((tag) => (
+                <li key={tag.slug} className="theme-version-item">
+                  <Link href={`/themes?tag=${tag.slug}&sort=popular`} className="theme-version-number">
+                    {tag.name}
+                  </Link>
+                  <span className="theme-version-date">
+                    #{tag.rank} of {tag.total} by downloads
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,148 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getThemeById, getThemeVersions } from "@/lib/themes/queries";
+import { diffThemeContent } from "@/lib/themes/diff";
+import type { ThemeVersion } from "@/lib/themes/types";
+import { getSiteUrl } from "@/lib/site-url";
+import { ThemeDiffView } from "@/components/themes/theme-diff";
+import { MarkdownLite } from "@/components/markdown-lite";
+import { DownloadButton } from "../download-button";
+
+interface ThemeVersionsPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ThemeVersionsPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const theme = await getThemeById(id);
+
+  if (!theme) {
+    return {
+      title: "Theme Not Found",
+    };
+  }
+
+  return {
+    title: `${theme.name} Versions - Mira Theme`,
+    alternates: {
+      canonical: `${getSiteUrl()}/themes/${id}/versions`,
+    },
+  };
+}
+
+export default async function ThemeVersionsPage({ params, searchParams }: ThemeVersionsPageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const [theme, storedVersions] = await Promise.all([getThemeById(id), getThemeVersions(id)]);
+
+  if (!theme) {
+    notFound();
+  }
+
+  // The first upload has no versions row, so surface the live content as well
+  const versions: ThemeVersion[] = storedVersions.some((v) => v.version === theme.version)
+    ? storedVersions
+    : [
+        {
+          id: "current",
+          theme_id: theme.id,
+          version: theme.version,
+          css_content: theme.css_content,
+          changelog: null,
+          created_at: theme.updated_at,
+        },
+        ...storedVersions,
+      ];
+
+  // Default to comparing the latest version with the one before it
+  const toVersion = versions.find((v) => v.id === query.to) ?? versions[0];
+  const fromVersion = versions.find((v) => v.id === query.from) ?? versions[1];
+  const diff = fromVersion && toVersion
+    ? diffThemeContent(fromVersion.css_content, toVersion.css_content)
+    : null;
+
+  return (
+    <main className="section page-enter">
+      <div className="container">
+        <div className="review-header">
+          <h1 className="animate-fade-up">{theme.name} Versions</h1>
+          <Link href={`/themes/${theme.id}`} className="btn btn-ghost">
+            Back to Theme
+          </Link>
+        </div>
+
+        <div className="theme-detail animate-fade-up" style={{ animationDelay: "80ms" }}>
+          <div className="theme-versions">
+            <h2>All Versions</h2>
+            <ul className="theme-versions-list">
+              {versions.map((v) => (
+                <li key={v.id} className="theme-version-item theme-version-item-full">
+                  <div className="theme-version-summary">
+                    <span className="theme-version-number">
+                      {v.version}
+                      {v.version === theme.version && (
+                        <span className="version-badge">Current</span>
+                      )}
+                    </span>
+                    <span className="theme-version-date">
+                      {new Date(v.created_at).toLocaleDateString()}
+                    </span>
+                    {v.changelog && (
+                      <MarkdownLite source={v.changelog} className="theme-version-changelog" />
+                    )}
+                  </div>
+                  <div className="theme-detail-actions">
+                    <DownloadButton
+                      themeId={theme.id}
+                      themeName={theme.name}
+                      authorName={theme.author_name}
+                      version={v.version}
+                      cssContent={v.css_content}
+                      installable={v.version === theme.version}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {versions.length > 1 && (
+            <div className="theme-versions">
+              <h2>Compare Versions</h2>
+              <form method="get" className="theme-diff-picker">
+                <label>
+                  From
+                  <select name="from" defaultValue={fromVersion?.id} className="filter-select">
+                    {versions.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.version}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  To
+                  <select name="to" defaultValue={toVersion?.id} className="filter-select">
+                    {versions.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.version}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button type="submit" className="btn btn-ghost">
+                  Compare
+                </button>
+              </form>
+              {diff && <ThemeDiffView diff={diff} />}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,82 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import { getThemeById } from "@/lib/themes/queries";
+import { parseThemeContent } from "@/lib/themes/schema";
+import { ThemeBuilder } from "@/components/themes/theme-builder";
+import { getSiteUrl } from "@/lib/site-url";
+
+export const metadata: Metadata = {
+  title: "Create Theme",
+  description: "Design a theme for Mira with live preview.",
+  alternates: {
+    canonical: `${getSiteUrl()}/themes/create`,
+  },
+};
+
+interface CreateThemePageProps {
+  searchParams: Promise<{ remix?: string }>;
+}
+
+export default async function CreateThemePage({ searchParams }: CreateThemePageProps) {
+  const { remix } = await searchParams;
+  const [supabase, remixed] = await Promise.all([
+    createClient(),
+    remix ? getThemeById(remix) : null,
+  ]);
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  // Get profile for pre-filled author name
+  let authorName = "";
+  if (user) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("display_name")
+      .eq("id", user.id)
+      .single();
+    authorName = profile?.display_name || user.email?.split("@")[0] || "";
+  }
+
+  // Only remix themes whose content passes the schema; falling back to the
+  // default content would record a fork that shares nothing with its source
+  const sourceContent = remixed ? parseThemeContent(remixed.css_content) : null;
+  const source = sourceContent?.ok ? remixed : null;
+
+  return (
+    <main className="section page-enter">
+      <div className="container">
+        <h1 className="animate-fade-up">{source ? "Remix Theme" : "Create Theme"}</h1>
+        <p className="muted-note animate-fade-up" style={{ animationDelay: "80ms" }}>
+          {source ? (
+            <>
+              Starting from <Link href={`/themes/${source.id}`}>{source.name}</Link> by{" "}
+              {source.profiles?.display_name || source.author_name}.{" "}
+            </>
+          ) : (
+            "Pick colors and fonts for each part of the browser and watch the preview update. "
+          )}
+          {!user && "You are not signed in, so a submitted theme will be anonymous."}
+        </p>
+        {remix && !remixed && (
+          <p className="muted-note">The theme you tried to remix could not be found.</p>
+        )}
+        {remixed && !source && (
+          <p className="muted-note">The theme you tried to remix can&apos;t be opened in the builder.</p>
+        )}
+
+        <div className="animate-fade-up" style={{ animationDelay: "160ms" }}>
+          <ThemeBuilder
+            userId={user?.id}
+            authorName={authorName}
+            initialName={source ? `${source.name} Remix` : ""}
+            initialData={sourceContent?.ok ? sourceContent.data : undefined}
+            forkedFrom={source?.id}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,39 +1,52 @@
 import type { Metadata } from "next";
 import Link from "next/link";
-import { getThemes, getTags } from "@/lib/themes/queries";
+import { getLikedThemeIds, getThemes, getTags } from "@/lib/themes/queries";
 import { ThemeGrid } from "@/components/themes/theme-grid";
 import { SearchBar } from "@/components/themes/search-bar";
 import { ThemeFilters } from "@/components/themes/theme-filters";
 import { SignInModalWrapper } from "./sign-in-modal-wrapper";
 import { getSiteUrl } from "@/lib/site-url";
 import { createClient } from "@/lib/supabase/server";
-
-export const metadata: Metadata = {
-  title: "Themes Marketplace",
-  description: "Browse and share themes for Mira browser.",
-  alternates: {
-    canonical: `${getSiteUrl()}/themes`,
-  },
-};
+import type { ThemeSortOption } from "@/lib/themes/types";
+import { parseThemeFilters, toFilterQuery } from "@/lib/themes/filters";
 
 interface ThemesPageProps {
   searchParams: Promise<{
     search?: string;
     tag?: string;
-    sort?: "newest" | "popular" | "name";
+    match?: string;
+    exclude?: string;
+    mode?: string;
+    author?: string;
+    color?: string;
+    sort?: ThemeSortOption;
+    accessible?: string;
     signin?: string;
   }>;
 }
 
+export async function generateMetadata({ searchParams }: ThemesPageProps): Promise<Metadata> {
+  // Filtered views are canonical on their own, in a normalized parameter order
+  const query = toFilterQuery(parseThemeFilters(await searchParams)).toString();
+
+  return {
+    title: "Themes Marketplace",
+    description: "Browse and share themes for Mira browser.",
+    alternates: {
+      canonical: `${getSiteUrl()}/themes${query ? `?${query}` : ""}`,
+    },
+  };
+}
+
 export default async function ThemesPage({ searchParams }: ThemesPageProps) {
   const params = await searchParams;
   const search = params.search;
-  const tag = params.tag;
+  const filters = parseThemeFilters(params);
   const sortBy = params.sort || "newest";
   const showSignIn = params.signin === "true";
 
   const [themes, tags, supabase] = await Promise.all([
-    getThemes({ search, tag, sortBy }),
+    getThemes({ search, ...filters, sortBy }),
     getTags(),
     createClient(),
   ]);
@@ -42,6 +55,8 @@ export default async function ThemesPage({ searchParams }: ThemesPageProps) {
     data: { user },
   } = await supabase.auth.getUser();
 
+  const likedIds = user ? await getLikedThemeIds(user.id, themes.map((theme) => theme.id)) : [];
+
   return (
     <main className="section page-enter">
       <div className="container">
@@ -53,6 +68,14 @@ export default async function ThemesPage({ searchParams }: ThemesPageProps) {
                 Sign in
               </Link>
             )}
+            {user && (
+              <Link href="/collections" className="btn btn-ghost">
+                My Collections
+              </Link>
+            )}
+            <Link href="/themes/create" className="btn btn-ghost">
+              Create Theme
+            </Link>
             <Link href="/themes/upload" className="btn btn-primary">
               Upload Theme
             </Link>
@@ -67,13 +90,18 @@ export default async function ThemesPage({ searchParams }: ThemesPageProps) {
           <aside className="themes-sidebar">
             <ThemeFilters
               tags={tags}
-              selectedTag={tag}
+              filters={filters}
               sortBy={sortBy}
             />
           </aside>
 
           <div className="themes-content">
-            <ThemeGrid themes={themes} />
+            <ThemeGrid
+              themes={themes}
+              likedIds={likedIds}
+              signedIn={!!user}
+              highlight={search}
+            />
           </div>
         </div>
       </div>
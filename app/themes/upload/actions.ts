@@ -0,0 +1,158 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import { parseThemeContent, serializeThemeContent, type ThemeFieldError } from "@/lib/themes/schema";
+import { formatTagName, normalizeTags } from "@/lib/themes/tags";
+import { isValidThemeVersion } from "@/lib/semver";
+import { refreshThemeCheckReport } from "@/lib/themes/queries";
+import { getMinContrastRatio } from "@/lib/themes/contrast";
+import { getSearchColors } from "@/lib/themes/palette";
+import { SUSPENDED_MESSAGE } from "@/lib/auth/suspension";
+import type { ThemeSubmissionInput, ThemeSubmissionResult } from "@/lib/themes/types";
+
+const MAX_NAME_LENGTH = 60;
+const MAX_VERSION_LENGTH = 20;
+
+export async function submitTheme(input: ThemeSubmissionInput): Promise<ThemeSubmissionResult> {
+  const errors: ThemeFieldError[] = [];
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    errors.push({ field: "name", message: "Theme name is required." });
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push({ field: "name", message: `Theme name must be at most ${MAX_NAME_LENGTH} characters.` });
+  }
+
+  const version = typeof input.version === "string" ? input.version.trim() : "";
+  if (!version || version.length > MAX_VERSION_LENGTH || !isValidThemeVersion(version)) {
+    errors.push({ field: "version", message: "A version such as 1.0.0 is required." });
+  }
+
+  const content =
+    typeof input.css_content === "string" && input.css_content.trim()
+      ? parseThemeContent(input.css_content)
+      : null;
+  if (!content) {
+    errors.push({ field: "css_content", message: "Please import a theme JSON file." });
+  } else if (!content.ok) {
+    errors.push(...content.errors);
+  }
+
+  const tags = normalizeTags(input.tags, errors);
+
+  if (errors.length > 0 || !content?.ok) {
+    return { ok: false, errors };
+  }
+
+  const supabase = await createClient();
+
+  // Remixes may only point at a theme that is publicly visible and whose
+  // content the builder could actually start from
+  if (input.forked_from) {
+    const { data: source } = await supabase
+      .from("themes")
+      .select("id, css_content")
+      .eq("id", input.forked_from)
+      .eq("status", "approved")
+      .single();
+
+    if (!source) {
+      return { ok: false, errors: [{ field: "forked_from", message: "The theme being remixed no longer exists." }] };
+    }
+    if (!parseThemeContent(source.css_content).ok) {
+      return { ok: false, errors: [{ field: "forked_from", message: "The theme being remixed can't be remixed." }] };
+    }
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  // Author name comes from the profile, never from the client
+  let authorName = "Anonymous";
+  if (user) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("display_name, suspended_at")
+      .eq("id", user.id)
+      .single();
+
+    if (profile?.suspended_at) {
+      return { ok: false, errors: [{ field: "", message: SUSPENDED_MESSAGE }] };
+    }
+
+    authorName = profile?.display_name || user.email?.split("@")[0] || "Anonymous";
+  }
+
+  // Mode tag is added automatically and doesn't count toward the limit
+  const mode = content.data.mode;
+  const allTags = [
+    { name: formatTagName(mode), slug: mode },
+    ...tags.filter((tag) => tag.slug !== mode),
+  ];
+
+  // Resolve tags before creating the theme so a tag failure leaves nothing behind
+  const { error: upsertError } = await supabase
+    .from("tags")
+    .upsert(allTags, { onConflict: "slug", ignoreDuplicates: true });
+
+  if (upsertError) {
+    console.error("Error creating tags:", upsertError);
+    return { ok: false, errors: [{ field: "tags", message: "Failed to save tags." }] };
+  }
+
+  const { data: tagRows, error: tagError } = await supabase
+    .from("tags")
+    .select("id, slug")
+    .in(
+      "slug",
+      allTags.map((tag) => tag.slug)
+    );
+
+  if (tagError || !tagRows) {
+    console.error("Error fetching tags:", tagError);
+    return { ok: false, errors: [{ field: "tags", message: "Failed to save tags." }] };
+  }
+
+  const cssContent = serializeThemeContent(content.data);
+  const { data: theme, error: themeError } = await supabase
+    .from("themes")
+    .insert({
+      name,
+      author_name: authorName,
+      user_id: user?.id || null,
+      css_content: cssContent,
+      min_contrast_ratio: getMinContrastRatio(cssContent),
+      search_colors: getSearchColors(cssContent),
+      version,
+      status: "under_review",
+      forked_from: input.forked_from || null,
+    })
+    .select("id")
+    .single();
+
+  if (themeError || !theme) {
+    console.error("Error creating theme:", themeError);
+    return { ok: false, errors: [{ field: "", message: "Failed to upload theme. Please try again." }] };
+  }
+
+  if (tagRows.length > 0) {
+    const { error: linkError } = await supabase
+      .from("theme_tags")
+      .insert(tagRows.map((tag) => ({ theme_id: theme.id, tag_id: tag.id })));
+
+    if (linkError) {
+      // Roll back the theme so no orphan row is left in the review queue
+      console.error("Error linking tags:", linkError);
+      await supabase.from("themes").delete().eq("id", theme.id);
+      return { ok: false, errors: [{ field: "", message: "Failed to upload theme. Please try again." }] };
+    }
+  }
+
+  await refreshThemeCheckReport(theme.id);
+
+  revalidatePath("/admin/review");
+
+  return { ok: true, themeId: theme.id };
+}
@@ -0,0 +1,42 @@
+import type { SeriesPoint } from "@/lib/analytics";
+
+interface BarChartProps {
+  title: string;
+  points: SeriesPoint[];
+  exportHref?: string;
+}
+
+export function BarChart({ title, points, exportHref }: BarChartProps) {
+  const max = Math.max(1, ...points.map((point) => point.count));
+  const total = points.reduce((sum, point) => sum + point.count, 0);
+
+  return (
+    <div className="analytics-chart">
+      <div className="analytics-chart-header">
+        <h3>{title}</h3>
+        <span className="analytics-chart-total">{total}</span>
+        {exportHref && (
+          <a href={exportHref} className="admin-link">
+            CSV
+          </a>
+        )}
+      </div>
+      <div className="analytics-bars" role="img" aria-label={`${title}: ${total} total`}>
+        {points.map((point) => (
+          <div
+            key={point.date}
+            className="analytics-bar"
+            style={{ height: `${(point.count / max) * 100}%` }}
+            title={`${point.date}: ${point.count}`}
+          />
+        ))}
+      </div>
+      {points.length > 0 && (
+        <div className="analytics-axis">
+          <span>{points[0].date}</span>
+          <span>{points[points.length - 1].date}</span>
+        </div>
+      )}
+    </div>
+  );
+}
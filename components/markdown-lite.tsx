@@ -0,0 +1,73 @@
+import { Fragment, type ReactNode } from "react";
+
+interface MarkdownLiteProps {
+  source: string;
+  className?: string;
+}
+
+// Supports **bold**, *italic*, `code`, [links](https://...), "- " lists and
+// paragraphs. Output is built from React elements, never raw HTML.
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, i) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return <code key={i}>{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      const href = link[2];
+      // Only allow web links so javascript: and data: URLs never render
+      if (/^https?:\/\//i.test(href)) {
+        return (
+          <a key={i} href={href} target="_blank" rel="noopener noreferrer nofollow">
+            {link[1]}
+          </a>
+        );
+      }
+      return <Fragment key={i}>{link[1]}</Fragment>;
+    }
+
+    return <Fragment key={i}>{part}</Fragment>;
+  });
+}
+
+export function MarkdownLite({ source, className }: MarkdownLiteProps) {
+  const blocks = source.trim().split(/\n{2,}/);
+
+  return (
+    <div className={className ? `markdown-lite ${className}` : "markdown-lite"}>
+      {blocks.map((block, i) => {
+        const lines = block.split("\n");
+
+        if (lines.every((line) => /^\s*[-*]\s+/.test(line))) {
+          return (
+            <ul key={i}>
+              {lines.map((line, j) => (
+                <li key={j}>{renderInline(line.replace(/^\s*[-*]\s+/, ""))}</li>
+              ))}
+            </ul>
+          );
+        }
+
+        return (
+          <p key={i}>
+            {lines.map((line, j) => (
+              <Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line)}
+              </Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
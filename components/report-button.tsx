@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import type { ReportInput, ReportTargetType } from "@/lib/themes/reports";
+import { submitReport } from "@/app/reports/actions";
+import { ReportForm } from "./report-form";
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  label?: string;
+}
+
+export function ReportButton({ targetType, targetId, label = "Report" }: ReportButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (report: ReportInput) => {
+    setIsPending(true);
+    try {
+      await submitReport(targetType, targetId, report);
+      setIsOpen(false);
+      setIsSent(true);
+    } catch (error) {
+      console.error("Failed to send report:", error);
+      alert(error instanceof Error ? error.message : "Failed to send report");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (isSent) {
+    return <p className="muted-note">Thanks, the moderators will take a look.</p>;
+  }
+
+  if (isOpen) {
+    return (
+      <ReportForm
+        id={`${targetType}-${targetId}`}
+        targetType={targetType}
+        isPending={isPending}
+        onSubmit={handleSubmit}
+        onCancel={() => setIsOpen(false)}
+      />
+    );
+  }
+
+  return (
+    <button type="button" onClick={() => setIsOpen(true)} className="admin-link">
+      {label}
+    </button>
+  );
+}
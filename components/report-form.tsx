@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_REPORT_NOTE_LENGTH,
+  getReportReasons,
+  type ReportInput,
+  type ReportReasonId,
+  type ReportTargetType,
+} from "@/lib/themes/reports";
+
+interface ReportFormProps {
+  id: string;
+  targetType: ReportTargetType;
+  isPending: boolean;
+  onSubmit: (report: ReportInput) => void;
+  onCancel: () => void;
+}
+
+export function ReportForm({ id, targetType, isPending, onSubmit, onCancel }: ReportFormProps) {
+  const reasons = getReportReasons(targetType);
+  const [reasonId, setReasonId] = useState<ReportReasonId>(reasons[0].id);
+  const [note, setNote] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ reasonId, note });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="review-reject-form">
+      <label htmlFor={`report-reason-${id}`}>What&apos;s wrong?</label>
+      <select
+        id={`report-reason-${id}`}
+        value={reasonId}
+        onChange={(e) => setReasonId(e.target.value as ReportReasonId)}
+        className="filter-select"
+        autoFocus
+      >
+        {reasons.map((reason) => (
+          <option key={reason.id} value={reason.id}>
+            {reason.label}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={3}
+        maxLength={MAX_REPORT_NOTE_LENGTH}
+        required={reasonId === "other"}
+        className="form-textarea"
+        placeholder="Optional details for the moderators"
+      />
+      <div className="review-actions">
+        <button type="submit" disabled={isPending} className="btn btn-danger review-btn">
+          {isPending ? "..." : "Send Report"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isPending}
+          className="btn btn-ghost review-btn"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
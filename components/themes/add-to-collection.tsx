@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import Link from "next/link";
+import {
+  addThemeToCollection,
+  createCollection,
+  getCollectionMemberships,
+  removeThemeFromCollection,
+  type CollectionMembership,
+} from "@/app/collections/actions";
+import { ThemeValidationErrors } from "./theme-validation-errors";
+import type { ThemeFieldError } from "@/lib/themes/schema";
+
+interface AddToCollectionProps {
+  themeId: string;
+  themeName: string;
+  className?: string;
+}
+
+export function AddToCollection({ themeId, themeName, className = "" }: AddToCollectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [collections, setCollections] = useState<CollectionMembership[] | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [errors, setErrors] = useState<ThemeFieldError[]>([]);
+
+  const open = async () => {
+    setIsOpen(true);
+    setErrors([]);
+    try {
+      setCollections(await getCollectionMemberships(themeId));
+    } catch (error) {
+      console.error("Failed to load collections:", error);
+      setErrors([{ field: "", message: "Failed to load your collections." }]);
+    }
+  };
+
+  const toggle = async (collection: CollectionMembership) => {
+    setPendingId(collection.id);
+    setErrors([]);
+    try {
+      if (collection.hasTheme) {
+        await removeThemeFromCollection(collection.id, themeId);
+      } else {
+        await addThemeToCollection(collection.id, themeId);
+      }
+      setCollections((prev) =>
+        (prev || []).map((c) => (c.id === collection.id ? { ...c, hasTheme: !c.hasTheme } : c))
+      );
+    } catch (error) {
+      console.error("Failed to update collection:", error);
+      setErrors([
+        { field: "", message: error instanceof Error ? error.message : "Failed to update collection." },
+      ]);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPendingId("new");
+    setErrors([]);
+    try {
+      const result = await createCollection({ name: newName, is_public: true }, themeId);
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+      setNewName("");
+      setCollections(await getCollectionMemberships(themeId));
+    } catch (error) {
+      console.error("Failed to create collection:", error);
+      setErrors([{ field: "", message: "Failed to create collection." }]);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={open}
+        className={`add-to-collection ${className}`}
+        aria-label={`Add ${themeName} to a collection`}
+        title="Add to collection"
+      >
+        + Collect
+      </button>
+      {/* Portaled so transformed cards don't trap the fixed overlay */}
+      {isOpen &&
+        createPortal(
+          <div className="modal-overlay open" onClick={() => setIsOpen(false)}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+              <button className="modal-close" onClick={() => setIsOpen(false)} aria-label="Close">
+                ×
+              </button>
+              <h2 className="modal-title">Add to collection</h2>
+              <p className="modal-description">{themeName}</p>
+
+              {collections === null ? (
+                <p className="muted-note">Loading...</p>
+              ) : collections.length === 0 ? (
+                <p className="muted-note">You don&apos;t have any collections yet.</p>
+              ) : (
+                <ul className="collection-picker">
+                  {collections.map((collection) => (
+                    <li key={collection.id}>
+                      <label className="filter-checkbox">
+                        <input
+                          type="checkbox"
+                          checked={collection.hasTheme}
+                          disabled={pendingId !== null}
+                          onChange={() => toggle(collection)}
+                        />
+                        {collection.name}
+                        {!collection.is_public && <span className="theme-tag">Private</span>}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form onSubmit={handleCreate} className="collection-picker-new">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="New collection name"
+                  aria-label="New collection name"
+                  className="form-input"
+                />
+                <button
+                  type="submit"
+                  disabled={pendingId !== null || !newName.trim()}
+                  className="btn btn-primary"
+                >
+                  Create
+                </button>
+              </form>
+              <ThemeValidationErrors errors={errors} title="Couldn't update collections:" />
+
+              <Link href="/collections" className="admin-link">
+                Manage collections
+              </Link>
+            </div>
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
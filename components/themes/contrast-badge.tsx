@@ -0,0 +1,10 @@
+import type { ContrastLevel } from "@/lib/themes/contrast";
+
+interface ContrastBadgeProps {
+  level: ContrastLevel;
+}
+
+export function ContrastBadge({ level }: ContrastBadgeProps) {
+  const modifier = level.toLowerCase().replace(" ", "-");
+  return <span className={`contrast-badge ${modifier}`}>{level}</span>;
+}
@@ -0,0 +1,51 @@
+import { ACCESSIBLE_CONTRAST_RATIO, checkThemeContrast } from "@/lib/themes/contrast";
+import { parseThemeContent } from "@/lib/themes/schema";
+import { withThemeDefaults } from "@/lib/themes/variables";
+import { ContrastBadge } from "./contrast-badge";
+
+interface ContrastPanelProps {
+  cssContent: string;
+}
+
+export function ContrastPanel({ cssContent }: ContrastPanelProps) {
+  const content = parseThemeContent(cssContent);
+  if (!content.ok) return null;
+
+  // Ratios are measured against the defaults for unset colors, so the samples
+  // show those too
+  const { colors, mode } = withThemeDefaults(content.data);
+  const results = checkThemeContrast(colors, mode);
+  if (results.length === 0) return null;
+
+  const passing = results.filter((result) => result.ratio >= ACCESSIBLE_CONTRAST_RATIO).length;
+
+  return (
+    <div className="theme-contrast-panel">
+      <h2>Accessibility</h2>
+      <p className="muted-note">
+        {passing} of {results.length} text colors meet WCAG AA ({ACCESSIBLE_CONTRAST_RATIO}:1).
+      </p>
+      <table className="contrast-table">
+        <tbody>
+          {results.map((result) => (
+            <tr key={result.foreground}>
+              <td>
+                <span
+                  className="contrast-sample"
+                  style={{ color: colors[result.foreground], background: colors[result.background] }}
+                >
+                  Aa
+                </span>
+              </td>
+              <td>{result.label}</td>
+              <td>{result.ratio.toFixed(2)}:1</td>
+              <td>
+                <ContrastBadge level={result.level} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import type { Theme } from "@/lib/themes/types";
+import { parseThemeContent, type ThemeFieldError } from "@/lib/themes/schema";
+import { updateTheme } from "@/app/themes/[id]/actions";
+import { ThemeValidationErrors } from "./theme-validation-errors";
 
 interface EditThemeFormProps {
   theme: Theme;
@@ -18,35 +21,33 @@ export function EditThemeForm({ theme }: EditThemeFormProps) {
     css_content: theme.css_content,
     version: theme.version,
   });
+  const [validationErrors, setValidationErrors] = useState<ThemeFieldError[]>([]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const content = parseThemeContent(formData.css_content);
+    if (!content.ok) {
+      setValidationErrors(content.errors);
+      return;
+    }
+
+    setValidationErrors([]);
     setIsSubmitting(true);
 
     try {
-      const supabase = createClient();
-
-      // Update theme
-      const { error: themeError } = await supabase
-        .from("themes")
-        .update({
-          name: formData.name,
-          description: formData.description,
-          css_content: formData.css_content,
-          version: formData.version,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", theme.id);
-
-      if (themeError) throw themeError;
-
-      // Save version history
-      await supabase.from("versions").insert({
-        theme_id: theme.id,
-        version: formData.version,
+      const result = await updateTheme(theme.id, {
+        name: formData.name,
+        description: formData.description,
         css_content: formData.css_content,
+        version: formData.version,
       });
 
+      if (!result.ok) {
+        setValidationErrors(result.errors);
+        return;
+      }
+
       router.push(`/themes/${theme.id}`);
       router.refresh();
     } catch (error) {
@@ -115,6 +116,7 @@ export function EditThemeForm({ theme }: EditThemeFormProps) {
           required
           className="form-textarea"
         />
+        <ThemeValidationErrors errors={validationErrors} />
       </div>
 
       <div className="form-group">
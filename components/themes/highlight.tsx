@@ -0,0 +1,24 @@
+import { highlightMatches } from "@/lib/themes/search";
+
+interface HighlightProps {
+  text: string;
+  query?: string;
+}
+
+export function Highlight({ text, query }: HighlightProps) {
+  if (!query) return <>{text}</>;
+
+  return (
+    <>
+      {highlightMatches(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="search-highlight">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
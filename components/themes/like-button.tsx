@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { setThemeLike } from "@/app/themes/[id]/actions";
+
+interface LikeButtonProps {
+  themeId: string;
+  initialLiked: boolean;
+  initialCount: number;
+  signedIn: boolean;
+  className?: string;
+}
+
+export function LikeButton({
+  themeId,
+  initialLiked,
+  initialCount,
+  signedIn,
+  className = "",
+}: LikeButtonProps) {
+  const router = useRouter();
+  const [liked, setLiked] = useState(initialLiked);
+  const [count, setCount] = useState(initialCount);
+  const [isPending, setIsPending] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards wrap the whole preview in a link
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!signedIn) {
+      router.push("/themes?signin=true");
+      return;
+    }
+    if (isPending) return;
+
+    // Update right away and roll back if the server refuses
+    const next = !liked;
+    const previous = { liked, count };
+    setLiked(next);
+    setCount((c) => Math.max(0, c + (next ? 1 : -1)));
+    setIsPending(true);
+
+    try {
+      const result = await setThemeLike(themeId, next);
+      if (result.likeCount !== null) setCount(result.likeCount);
+    } catch (error) {
+      console.error("Failed to update like:", error);
+      setLiked(previous.liked);
+      setCount(previous.count);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={liked}
+      aria-label={liked ? "Unlike theme" : "Like theme"}
+      title={signedIn ? undefined : "Sign in to like themes"}
+      className={`like-button ${liked ? "liked" : ""} ${className}`}
+    >
+      <span aria-hidden="true">{liked ? "♥" : "♡"}</span> {count}
+    </button>
+  );
+}
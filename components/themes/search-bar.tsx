@@ -7,11 +7,23 @@ interface SearchBarProps {
   initialValue?: string;
 }
 
+interface Suggestions {
+  themes: { id: string; name: string; author: string }[];
+  tags: { slug: string; name: string }[];
+}
+
+const EMPTY_SUGGESTIONS: Suggestions = { themes: [], tags: [] };
+
 export function SearchBar({ initialValue = "" }: SearchBarProps) {
   const [query, setQuery] = useState(initialValue);
+  const [suggestions, setSuggestions] = useState<Suggestions>(EMPTY_SUGGESTIONS);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const router = useRouter();
   const searchParams = useSearchParams();
   const hasInteracted = useRef(false);
+  const suggestTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const latestRequest = useRef(0);
 
   // Debounced search - only after user interaction and if value actually changed
   useEffect(() => {
@@ -33,9 +45,86 @@ export function SearchBar({ initialValue = "" }: SearchBarProps) {
     return () => clearTimeout(timer);
   }, [query, router, searchParams]);
 
+  useEffect(() => () => clearTimeout(suggestTimer.current), []);
+
+  const items = [
+    ...suggestions.themes.map((theme) => ({
+      key: `theme-${theme.id}`,
+      label: theme.name,
+      detail: `by ${theme.author}`,
+      href: `/themes/${theme.id}`,
+    })),
+    ...suggestions.tags.map((tag) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.delete("search");
+      params.set("tag", tag.slug);
+      return {
+        key: `tag-${tag.slug}`,
+        label: tag.name,
+        detail: "Tag",
+        href: `/themes?${params.toString()}`,
+      };
+    }),
+  ];
+
+  const fetchSuggestions = (value: string) => {
+    clearTimeout(suggestTimer.current);
+    if (!value.trim()) {
+      latestRequest.current++;
+      setSuggestions(EMPTY_SUGGESTIONS);
+      return;
+    }
+
+    suggestTimer.current = setTimeout(async () => {
+      // Responses can arrive out of order; only the newest one counts
+      const request = ++latestRequest.current;
+      try {
+        const response = await fetch(`/api/themes/suggest?q=${encodeURIComponent(value)}`);
+        if (!response.ok) return;
+        const data: Suggestions = await response.json();
+        if (request === latestRequest.current) {
+          setSuggestions(data);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error("Failed to load suggestions:", error);
+      }
+    }, 200);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     hasInteracted.current = true;
     setQuery(e.target.value);
+    setShowSuggestions(true);
+    fetchSuggestions(e.target.value);
+  };
+
+  const openSuggestion = (href: string) => {
+    setShowSuggestions(false);
+    router.push(href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || items.length === 0) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        setActiveIndex((index) => (index + 1) % items.length);
+        break;
+      case "ArrowUp":
+        setActiveIndex((index) => (index <= 0 ? items.length - 1 : index - 1));
+        break;
+      case "Enter":
+        if (!items[activeIndex]) return;
+        openSuggestion(items[activeIndex].href);
+        break;
+      case "Escape":
+        setShowSuggestions(false);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
   };
 
   return (
@@ -44,9 +133,34 @@ export function SearchBar({ initialValue = "" }: SearchBarProps) {
         type="text"
         value={query}
         onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setShowSuggestions(true)}
+        onBlur={() => setShowSuggestions(false)}
         placeholder="Search themes..."
         className="search-input"
+        role="combobox"
+        aria-expanded={showSuggestions && items.length > 0}
+        aria-controls="search-suggestions"
+        aria-autocomplete="list"
       />
+      {showSuggestions && items.length > 0 && (
+        <ul id="search-suggestions" className="search-suggestions" role="listbox">
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`search-suggestion${index === activeIndex ? " active" : ""}`}
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => openSuggestion(item.href)}
+            >
+              <span className="search-suggestion-label">{item.label}</span>
+              <span className="search-suggestion-detail">{item.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
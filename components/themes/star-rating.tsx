@@ -0,0 +1,22 @@
+import { MAX_RATING, formatRating } from "@/lib/themes/reviews";
+
+interface StarRatingProps {
+  rating: number | null | undefined;
+  count?: number;
+}
+
+export function StarRating({ rating, count }: StarRatingProps) {
+  const filled = Math.round(rating ?? 0);
+  const label = rating ? `Rated ${formatRating(rating)} out of ${MAX_RATING}` : "Not rated yet";
+
+  return (
+    <span className="star-rating" title={label} aria-label={label}>
+      <span className="star-rating-stars" aria-hidden="true">
+        {"★".repeat(filled)}
+        <span className="star-rating-empty">{"★".repeat(MAX_RATING - filled)}</span>
+      </span>
+      {rating ? <span className="star-rating-value">{formatRating(rating)}</span> : null}
+      {count !== undefined && <span className="star-rating-count">({count})</span>}
+    </span>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  isValidColor,
+  serializeThemeContent,
+  THEME_MODES,
+  validateThemeData,
+  type ThemeColorKey,
+  type ThemeData,
+  type ThemeFieldError,
+  type ThemeFontKey,
+  type ThemeMode,
+} from "@/lib/themes/schema";
+import {
+  DEFAULT_THEME_DATA,
+  FONT_FAMILY_OPTIONS,
+  FONT_WEIGHT_OPTIONS,
+  formatVariableLabel,
+  THEME_COLOR_GROUPS,
+  withThemeDefaults,
+} from "@/lib/themes/variables";
+import { buildMiraThemeFile, getThemeFileName } from "@/lib/mira";
+import { submitTheme } from "@/app/themes/upload/actions";
+import { ThemePreview } from "./theme-preview";
+import { ThemeValidationErrors } from "./theme-validation-errors";
+
+interface ThemeBuilderProps {
+  userId?: string;
+  authorName: string;
+  initialName?: string;
+  initialData?: ThemeData;
+  forkedFrom?: string;
+}
+
+const SHORT_HEX = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i;
+const LONG_HEX = /^#([0-9a-f]{6})([0-9a-f]{2})?$/i;
+
+// <input type="color"> only understands #rrggbb, so map other syntaxes onto it
+function toPickerValue(value: string): string {
+  const short = value.match(SHORT_HEX);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  const long = value.match(LONG_HEX);
+  if (long) return `#${long[1]}`;
+  return "#000000";
+}
+
+// Keeps the alpha channel of #rrggbbaa values when picking a new color
+function fromPickerValue(picked: string, previous: string): string {
+  const alpha = previous.match(LONG_HEX)?.[2];
+  return alpha ? `${picked}${alpha}` : picked;
+}
+
+export function ThemeBuilder({
+  userId,
+  authorName,
+  initialName = "",
+  initialData,
+  forkedFrom,
+}: ThemeBuilderProps) {
+  const router = useRouter();
+  const [name, setName] = useState(initialName);
+  const [theme, setTheme] = useState<ThemeData>(() =>
+    withThemeDefaults(initialData ?? DEFAULT_THEME_DATA)
+  );
+  const [openGroup, setOpenGroup] = useState<string>(THEME_COLOR_GROUPS[0].id);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitErrors, setSubmitErrors] = useState<ThemeFieldError[]>([]);
+
+  const cssContent = useMemo(() => serializeThemeContent(theme), [theme]);
+  const validation = useMemo(() => validateThemeData(theme), [theme]);
+  const errors = validation.ok ? [] : validation.errors;
+
+  const setMode = (mode: ThemeMode) => setTheme((prev) => ({ ...prev, mode }));
+
+  const setColor = (key: ThemeColorKey, value: string) =>
+    setTheme((prev) => ({ ...prev, colors: { ...prev.colors, [key]: value } }));
+
+  const setFont = (key: ThemeFontKey, value: string) =>
+    setTheme((prev) => ({ ...prev, fonts: { ...prev.fonts, [key]: value } }));
+
+  const handleDownload = () => {
+    const file = buildMiraThemeFile({
+      name: name || "Untitled Theme",
+      author: authorName || "Anonymous",
+      version: "1.0.0",
+      cssContent,
+    });
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getThemeFileName(file.name);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitErrors([]);
+    setIsSubmitting(true);
+
+    try {
+      const result = await submitTheme({
+        name,
+        version: "1.0.0",
+        css_content: cssContent,
+        forked_from: forkedFrom,
+      });
+
+      if (!result.ok) {
+        setSubmitErrors(result.errors);
+        return;
+      }
+
+      if (userId) {
+        router.push(`/profile/${authorName}`);
+      } else {
+        router.push("/themes");
+      }
+    } catch (error) {
+      console.error("Submit error:", error);
+      setSubmitErrors([{ field: "", message: "Failed to submit theme. Please try again." }]);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="theme-builder">
+      <div className="theme-builder-controls">
+        <div className="form-group">
+          <label htmlFor="builder-name">Theme Name *</label>
+          <input
+            type="text"
+            id="builder-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="form-input"
+            placeholder="My Theme"
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="builder-mode">Mode</label>
+          <select
+            id="builder-mode"
+            value={theme.mode}
+            onChange={(e) => setMode(e.target.value as ThemeMode)}
+            className="filter-select"
+          >
+            {THEME_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {mode.charAt(0).toUpperCase() + mode.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <fieldset className="theme-builder-group">
+          <legend>Fonts</legend>
+          {(["fontPrimaryFamily", "fontSecondaryFamily"] as const).map((key) => (
+            <label key={key} className="theme-builder-field">
+              <span>{formatVariableLabel(key)}</span>
+              <select
+                value={theme.fonts[key] ?? ""}
+                onChange={(e) => setFont(key, e.target.value)}
+                className="filter-select"
+              >
+                {!FONT_FAMILY_OPTIONS.includes(theme.fonts[key] ?? "") && (
+                  <option value={theme.fonts[key]}>{theme.fonts[key]}</option>
+                )}
+                {FONT_FAMILY_OPTIONS.map((family) => (
+                  <option key={family} value={family}>
+                    {family.replace(/'/g, "")}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          {(["fontPrimaryWeight", "fontSecondaryWeight"] as const).map((key) => (
+            <label key={key} className="theme-builder-field">
+              <span>{formatVariableLabel(key)}</span>
+              <select
+                value={theme.fonts[key] ?? ""}
+                onChange={(e) => setFont(key, e.target.value)}
+                className="filter-select"
+              >
+                {FONT_WEIGHT_OPTIONS.map((weight) => (
+                  <option key={weight} value={weight}>
+                    {weight}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </fieldset>
+
+        {THEME_COLOR_GROUPS.map((group) => (
+          <fieldset key={group.id} className="theme-builder-group">
+            <legend>
+              <button
+                type="button"
+                className="theme-builder-group-toggle"
+                onClick={() => setOpenGroup(openGroup === group.id ? "" : group.id)}
+                aria-expanded={openGroup === group.id}
+              >
+                {group.label}
+                <span className="theme-builder-group-count">{group.keys.length}</span>
+              </button>
+            </legend>
+            {openGroup === group.id &&
+              group.keys.map((key) => {
+                const value = theme.colors[key] ?? "";
+                const isShadow = key === "contextMenuShadow";
+                const isInvalid = !isShadow && !isValidColor(value);
+
+                return (
+                  <label key={key} className="theme-builder-field">
+                    <span>{formatVariableLabel(key)}</span>
+                    <span className="theme-builder-color">
+                      {!isShadow && (
+                        <input
+                          type="color"
+                          value={toPickerValue(value)}
+                          onChange={(e) => setColor(key, fromPickerValue(e.target.value, value))}
+                          aria-label={`${formatVariableLabel(key)} picker`}
+                        />
+                      )}
+                      <input
+                        type="text"
+                        value={value}
+                        onChange={(e) => setColor(key, e.target.value)}
+                        className={`form-input${isInvalid ? " invalid" : ""}`}
+                        spellCheck={false}
+                      />
+                    </span>
+                  </label>
+                );
+              })}
+          </fieldset>
+        ))}
+      </div>
+
+      <div className="theme-builder-preview">
+        <div className="theme-builder-preview-sticky">
+          <ThemePreview cssContent={cssContent} />
+
+          <ThemeValidationErrors errors={errors} />
+          <ThemeValidationErrors errors={submitErrors} title="The theme could not be submitted:" />
+
+          <div className="form-actions">
+            <button
+              type="button"
+              onClick={handleDownload}
+              disabled={errors.length > 0}
+              className="btn btn-ghost"
+            >
+              Download JSON
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || errors.length > 0 || !name.trim()}
+              className="btn btn-primary"
+            >
+              {isSubmitting ? "Submitting..." : "Submit for Review"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+}
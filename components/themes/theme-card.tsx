@@ -4,12 +4,26 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { Theme } from "@/lib/themes/types";
 import { ThemePreview } from "./theme-preview";
+import { ThemePalette } from "./theme-palette";
+import { StarRating } from "./star-rating";
+import { LikeButton } from "./like-button";
+import { AddToCollection } from "./add-to-collection";
+import { Highlight } from "./highlight";
 
 interface ThemeCardProps {
   theme: Theme;
+  liked?: boolean;
+  signedIn?: boolean;
+  // Search query whose matches are marked in the name, author and tags
+  highlight?: string;
 }
 
-export function ThemeCard({ theme }: ThemeCardProps) {
+export function ThemeCard({
+  theme,
+  liked = false,
+  signedIn = false,
+  highlight,
+}: ThemeCardProps) {
   const router = useRouter();
   const authorUsername = theme.profiles?.username;
   const authorDisplayName = theme.profiles?.display_name || theme.author_name;
@@ -22,14 +36,20 @@ export function ThemeCard({ theme }: ThemeCardProps) {
     }
   };
 
+  // Rejected themes are only visible to their owner, who can fix and resubmit them
+  const href = theme.status === "rejected" ? `/themes/${theme.id}/edit` : `/themes/${theme.id}`;
+
   return (
     <article className="theme-card">
-      <Link href={`/themes/${theme.id}`} className="theme-card-link">
+      <Link href={href} className="theme-card-link">
         <div className="theme-card-preview mini-preview">
           <ThemePreview cssContent={theme.css_content} />
         </div>
+        <ThemePalette cssContent={theme.css_content} />
         <div className="theme-card-content">
-          <h3 className="theme-card-title">{theme.name}</h3>
+          <h3 className="theme-card-title">
+            <Highlight text={theme.name} query={highlight} />
+          </h3>
           <p className="theme-card-author">
             by{" "}
             {authorUsername ? (
@@ -39,17 +59,19 @@ export function ThemeCard({ theme }: ThemeCardProps) {
                 role="button"
                 tabIndex={0}
               >
-                {authorDisplayName}
+                <Highlight text={authorDisplayName} query={highlight} />
               </span>
             ) : (
-              <span>{theme.author_name}</span>
+              <span>
+                <Highlight text={theme.author_name} query={highlight} />
+              </span>
             )}
           </p>
           {theme.theme_tags && theme.theme_tags.length > 0 && (
             <div className="theme-card-tags">
               {theme.theme_tags.slice(0, 3).map(({ tags }) => (
                 <span key={tags.id} className="theme-tag">
-                  {tags.name}
+                  <Highlight text={tags.name} query={highlight} />
                 </span>
               ))}
             </div>
@@ -59,14 +81,40 @@ export function ThemeCard({ theme }: ThemeCardProps) {
               <span className="status-badge under-review">Under Review</span>
             </div>
           )}
+          {theme.status === "rejected" && (
+            <div className="theme-card-status">
+              <span className="status-badge rejected">Rejected</span>
+              {theme.rejection_reason && (
+                <p className="theme-card-rejection">{theme.rejection_reason}</p>
+              )}
+            </div>
+          )}
           <div className="theme-card-meta">
             <span className="theme-card-downloads">
               {theme.download_count} downloads
             </span>
+            {!!theme.rating_count && (
+              <StarRating rating={theme.rating_average} count={theme.rating_count} />
+            )}
+            {theme.status !== "rejected" && theme.status !== "under_review" && (
+              <LikeButton
+                themeId={theme.id}
+                initialLiked={liked}
+                initialCount={theme.like_count ?? 0}
+                signedIn={signedIn}
+              />
+            )}
             <span className="theme-card-version">{theme.version}</span>
           </div>
         </div>
       </Link>
+      {signedIn && theme.status !== "rejected" && theme.status !== "under_review" && (
+        <AddToCollection
+          themeId={theme.id}
+          themeName={theme.name}
+          className="theme-card-collect"
+        />
+      )}
     </article>
   );
 }
@@ -0,0 +1,68 @@
+import type { ThemeDiff, ThemeDiffEntry } from "@/lib/themes/diff";
+import { isEmptyDiff } from "@/lib/themes/diff";
+import { isValidColor } from "@/lib/themes/schema";
+
+interface ThemeDiffViewProps {
+  diff: ThemeDiff;
+}
+
+function Swatch({ color }: { color?: string }) {
+  if (!color || !isValidColor(color)) return null;
+  return <span className="theme-diff-swatch" style={{ background: color }} aria-hidden />;
+}
+
+function DiffRows({ entries, showSwatches }: { entries: ThemeDiffEntry[]; showSwatches: boolean }) {
+  return (
+    <ul className="theme-diff-list">
+      {entries.map((entry) => (
+        <li key={entry.key} className={`theme-diff-row ${entry.kind}`}>
+          <span className="theme-diff-kind">{entry.kind}</span>
+          <code className="theme-diff-key">{entry.key}</code>
+          <span className="theme-diff-values">
+            {entry.from !== undefined && (
+              <span className="theme-diff-value">
+                {showSwatches && <Swatch color={entry.from} />}
+                {entry.from}
+              </span>
+            )}
+            {entry.kind === "changed" && <span className="theme-diff-arrow">→</span>}
+            {entry.to !== undefined && (
+              <span className="theme-diff-value">
+                {showSwatches && <Swatch color={entry.to} />}
+                {entry.to}
+              </span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ThemeDiffView({ diff }: ThemeDiffViewProps) {
+  if (isEmptyDiff(diff)) {
+    return <p className="theme-diff-empty">These versions are identical.</p>;
+  }
+
+  return (
+    <div className="theme-diff">
+      {diff.mode && (
+        <p className="theme-diff-mode">
+          Mode: {diff.mode.from ?? "none"} → {diff.mode.to ?? "none"}
+        </p>
+      )}
+      {diff.colors.length > 0 && (
+        <section>
+          <h3>Colors ({diff.colors.length})</h3>
+          <DiffRows entries={diff.colors} showSwatches />
+        </section>
+      )}
+      {diff.fonts.length > 0 && (
+        <section>
+          <h3>Fonts ({diff.fonts.length})</h3>
+          <DiffRows entries={diff.fonts} showSwatches={false} />
+        </section>
+      )}
+    </div>
+  );
+}
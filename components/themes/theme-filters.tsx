@@ -1,36 +1,79 @@
 "use client";
 
+import { useState } from "react";
+import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
-import type { Tag } from "@/lib/themes/types";
+import type { Tag, ThemeSortOption } from "@/lib/themes/types";
+import { normalizeHexColor } from "@/lib/themes/palette";
+import type { ThemeFilterState } from "@/lib/themes/filters";
+import { THEME_MODES } from "@/lib/themes/schema";
+import { formatTagName } from "@/lib/themes/tags";
 
 interface ThemeFiltersProps {
   tags: Tag[];
-  selectedTag?: string;
-  sortBy: "newest" | "popular" | "name";
+  filters: ThemeFilterState;
+  sortBy: ThemeSortOption;
 }
 
-export function ThemeFilters({
-  tags,
-  selectedTag,
-  sortBy,
-}: ThemeFiltersProps) {
+type TagState = "included" | "excluded" | "none";
+
+export function ThemeFilters({ tags, filters, sortBy }: ThemeFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
 
-  const handleTagChange = (tag: string | undefined) => {
+  // Filters live in the URL so filtered views can be shared and crawled
+  const hrefWith = (changes: Record<string, string | undefined>) => {
     const params = new URLSearchParams(searchParams.toString());
-    if (tag) {
-      params.set("tag", tag);
-    } else {
-      params.delete("tag");
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
     }
-    router.push(`/themes?${params.toString()}`);
+    const query = params.toString();
+    return query ? `/themes?${query}` : "/themes";
   };
 
-  const handleSortChange = (sort: "newest" | "popular" | "name") => {
-    const params = new URLSearchParams(searchParams.toString());
-    params.set("sort", sort);
-    router.push(`/themes?${params.toString()}`);
+  const getTagState = (slug: string): TagState => {
+    if (filters.tags.includes(slug)) return "included";
+    if (filters.excludeTags.includes(slug)) return "excluded";
+    return "none";
+  };
+
+  // Clicking a tag cycles it: include, then exclude, then clear
+  const getTagHref = (slug: string) => {
+    const state = getTagState(slug);
+    const included = filters.tags.filter((tag) => tag !== slug);
+    const excluded = filters.excludeTags.filter((tag) => tag !== slug);
+    if (state === "none") included.push(slug);
+    if (state === "included") excluded.push(slug);
+
+    return hrefWith({
+      tag: included.join(",") || undefined,
+      exclude: excluded.join(",") || undefined,
+    });
+  };
+
+  const handleSortChange = (sort: ThemeSortOption) => {
+    router.push(hrefWith({ sort }));
+  };
+
+  const handleModeChange = (mode: string) => {
+    router.push(hrefWith({ mode: mode || undefined }));
+  };
+
+  const handleAuthorChange = (author: string | undefined) => {
+    router.push(hrefWith({ author }));
+  };
+
+  const handleColorChange = (color: string | undefined) => {
+    // Without the "#" so shared links stay readable
+    router.push(hrefWith({ color: color?.slice(1) }));
+  };
+
+  const handleAccessibleChange = (checked: boolean) => {
+    router.push(hrefWith({ accessible: checked ? "true" : undefined }));
   };
 
   return (
@@ -40,36 +83,201 @@ export function ThemeFilters({
         <select
           value={sortBy}
           onChange={(e) =>
-            handleSortChange(e.target.value as "newest" | "popular" | "name")
+            handleSortChange(e.target.value as ThemeSortOption)
           }
           className="filter-select"
         >
           <option value="newest">Newest</option>
           <option value="popular">Most Popular</option>
+          <option value="top_rated">Top Rated</option>
+          <option value="most_liked">Most Liked</option>
           <option value="name">Name</option>
         </select>
       </div>
 
+      <div className="filter-group">
+        <label className="filter-label" htmlFor="mode-filter">
+          Mode
+        </label>
+        <select
+          id="mode-filter"
+          value={filters.mode ?? ""}
+          onChange={(e) => handleModeChange(e.target.value)}
+          className="filter-select"
+        >
+          <option value="">Any mode</option>
+          {THEME_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {formatTagName(mode)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="filter-group">
+        <label className="filter-checkbox">
+          <input
+            type="checkbox"
+            checked={filters.accessibleOnly}
+            onChange={(e) => handleAccessibleChange(e.target.checked)}
+          />
+          Accessible themes only
+        </label>
+        <small className="form-hint">Every text color meets WCAG AA contrast</small>
+      </div>
+
+      <AuthorFilter
+        key={filters.author ?? ""}
+        selectedAuthor={filters.author}
+        onChange={handleAuthorChange}
+      />
+
+      <ColorFilter
+        key={filters.color ?? ""}
+        selectedColor={filters.color}
+        onChange={handleColorChange}
+      />
+
       <div className="filter-group">
         <label className="filter-label">Category</label>
+        {filters.tags.length > 1 && (
+          <div className="tag-match-toggle">
+            <Link
+              href={hrefWith({ match: undefined })}
+              className={`tag-filter ${filters.tagMatch === "all" ? "active" : ""}`}
+            >
+              All tags
+            </Link>
+            <Link
+              href={hrefWith({ match: "any" })}
+              className={`tag-filter ${filters.tagMatch === "any" ? "active" : ""}`}
+            >
+              Any tag
+            </Link>
+          </div>
+        )}
         <div className="tag-filter-list">
-          <button
-            onClick={() => handleTagChange(undefined)}
-            className={`tag-filter ${!selectedTag ? "active" : ""}`}
+          <Link
+            href={hrefWith({ tag: undefined, exclude: undefined, match: undefined })}
+            className={`tag-filter ${
+              filters.tags.length === 0 && filters.excludeTags.length === 0 ? "active" : ""
+            }`}
           >
             All
-          </button>
-          {tags.map((tag) => (
-            <button
-              key={tag.id}
-              onClick={() => handleTagChange(tag.slug)}
-              className={`tag-filter ${selectedTag === tag.slug ? "active" : ""}`}
-            >
-              {tag.name}
-            </button>
-          ))}
+          </Link>
+          {tags.map((tag) => {
+            const state = getTagState(tag.slug);
+            return (
+              <Link
+                key={tag.id}
+                href={getTagHref(tag.slug)}
+                className={`tag-filter ${state === "included" ? "active" : ""} ${
+                  state === "excluded" ? "excluded" : ""
+                }`}
+                title={state === "included" ? `Exclude ${tag.name}` : undefined}
+              >
+                {tag.name}
+              </Link>
+            );
+          })}
         </div>
+        <small className="form-hint">Click a selected tag again to exclude it</small>
       </div>
     </div>
   );
 }
+
+interface AuthorFilterProps {
+  selectedAuthor?: string;
+  onChange: (author: string | undefined) => void;
+}
+
+function AuthorFilter({ selectedAuthor, onChange }: AuthorFilterProps) {
+  const [value, setValue] = useState(selectedAuthor ?? "");
+  const author = value.trim().replace(/^@/, "");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(author || undefined);
+  };
+
+  return (
+    <form className="filter-group" onSubmit={handleSubmit}>
+      <label className="filter-label" htmlFor="author-filter">
+        Author
+      </label>
+      <input
+        id="author-filter"
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="username"
+        className="filter-input"
+      />
+      <div className="filter-actions">
+        <button type="submit" className="btn btn-ghost" disabled={author === (selectedAuthor ?? "")}>
+          Filter
+        </button>
+        {selectedAuthor && (
+          <button type="button" className="btn btn-ghost" onClick={() => onChange(undefined)}>
+            Clear
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface ColorFilterProps {
+  selectedColor?: string;
+  onChange: (color: string | undefined) => void;
+}
+
+// Applied on submit rather than on every change, since dragging the picker
+// fires a stream of changes
+function ColorFilter({ selectedColor, onChange }: ColorFilterProps) {
+  const [value, setValue] = useState(selectedColor ?? "");
+  const color = normalizeHexColor(value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (color) onChange(color);
+  };
+
+  return (
+    <form className="filter-group" onSubmit={handleSubmit}>
+      <label className="filter-label" htmlFor="color-filter">
+        Color
+      </label>
+      <div className="color-filter">
+        <input
+          type="color"
+          value={color ?? "#000000"}
+          onChange={(e) => setValue(e.target.value)}
+          aria-label="Pick a color"
+          className="color-filter-picker"
+        />
+        <input
+          id="color-filter"
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="#7c3aed"
+          maxLength={7}
+          className="filter-input"
+        />
+      </div>
+      <div className="filter-actions">
+        <button type="submit" className="btn btn-ghost" disabled={!color}>
+          Match color
+        </button>
+        {selectedColor && (
+          <button type="button" className="btn btn-ghost" onClick={() => onChange(undefined)}>
+            Clear
+          </button>
+        )}
+      </div>
+      <small className="form-hint">Background, active tab, text or accent color</small>
+    </form>
+  );
+}
@@ -5,9 +5,17 @@ import type { Theme } from "@/lib/themes/types";
 
 interface ThemeGridProps {
   themes: Theme[];
+  likedIds?: string[];
+  signedIn?: boolean;
+  highlight?: string;
 }
 
-export function ThemeGrid({ themes }: ThemeGridProps) {
+export function ThemeGrid({
+  themes,
+  likedIds = [],
+  signedIn = false,
+  highlight,
+}: ThemeGridProps) {
   if (themes.length === 0) {
     return (
       <div className="theme-grid-empty">
@@ -19,7 +27,13 @@ export function ThemeGrid({ themes }: ThemeGridProps) {
   return (
     <div className="theme-grid">
       {themes.map((theme) => (
-        <ThemeCard key={theme.id} theme={theme} />
+        <ThemeCard
+          key={theme.id}
+          theme={theme}
+          liked={likedIds.includes(theme.id)}
+          signedIn={signedIn}
+          highlight={highlight}
+        />
       ))}
     </div>
   );
@@ -0,0 +1,27 @@
+"use client";
+
+import { useMemo } from "react";
+import { getThemePalette } from "@/lib/themes/palette";
+
+interface ThemePaletteProps {
+  cssContent: string;
+}
+
+export function ThemePalette({ cssContent }: ThemePaletteProps) {
+  const palette = useMemo(() => getThemePalette(cssContent), [cssContent]);
+
+  if (palette.length === 0) return null;
+
+  return (
+    <div className="theme-palette" aria-hidden="true">
+      {palette.map(({ key, color }) => (
+        <span
+          key={key}
+          className="theme-palette-swatch"
+          style={{ background: color }}
+          title={`${key}: ${color}`}
+        />
+      ))}
+    </div>
+  );
+}
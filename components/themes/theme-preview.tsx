@@ -3,6 +3,7 @@
 import { useMemo } from "react";
 import { ChevronLeft, ChevronRight, RotateCw, Bookmark, ChevronDown } from "lucide-react";
 import Image from "next/image";
+import { DEFAULT_THEME_COLORS, DEFAULT_THEME_FONTS } from "@/lib/themes/variables";
 
 interface ThemePreviewProps {
   cssContent: string;
@@ -26,107 +27,12 @@ export function ThemePreview({ cssContent }: ThemePreviewProps) {
   const colors = theme.colors || {};
   const fonts = theme.fonts || {};
 
-  // Build CSS variables from theme data with defaults matching default_dark.json
+  // Build CSS variables from theme data, falling back to the shared defaults
   const cssVars = {
-    // Background
-    "--bg": colors.bg || "#141414",
-    
-    // Tab colors
-    "--tabBg": colors.tabBg || "#1d1d1d",
-    "--tabBgHover": colors.tabBgHover || "#272727",
-    "--tabBgActive": colors.tabBgActive || "#313131",
-    "--tabText": colors.tabText || "#e8e8e8",
-    "--tabTextHover": colors.tabTextHover || "#f2f2f2",
-    "--tabTextActive": colors.tabTextActive || "#ffffff",
-    "--tabBorder": colors.tabBorder || "#353535",
-    "--tabBorderHover": colors.tabBorderHover || "#464646",
-    "--tabBorderActive": colors.tabBorderActive || "#595959",
-    
-    // Text colors
-    "--text1": colors.text1 || "#e8e8e8",
-    "--text2": colors.text2 || "#b9b9b9",
-    "--text3": colors.text3 || "#8f8f8f",
-    
-    // URL bar colors
-    "--urlBarBg": colors.urlBarBg || "#181818",
-    "--urlBarBgHover": colors.urlBarBgHover || "#202020",
-    "--urlBarBgActive": colors.urlBarBgActive || "#282828",
-    "--urlBarText": colors.urlBarText || "#efefef",
-    "--urlBarTextPlaceholder": colors.urlBarTextPlaceholder || "#8b8b8b",
-    "--urlBarBorder": colors.urlBarBorder || "#3a3a3a",
-    "--urlBarBorderHover": colors.urlBarBorderHover || "#4b4b4b",
-    "--urlBarBorderActive": colors.urlBarBorderActive || "#5f5f5f",
-    
-    // Surface colors
-    "--surfaceBg": colors.surfaceBg || "#1d1d1d",
-    "--surfaceBgHover": colors.surfaceBgHover || "#272727",
-    "--surfaceBgActive": colors.surfaceBgActive || "#313131",
-    "--surfaceText": colors.surfaceText || "#e8e8e8",
-    "--surfaceTextHover": colors.surfaceTextHover || "#f2f2f2",
-    "--surfaceTextActive": colors.surfaceTextActive || "#ffffff",
-    "--surfaceBorder": colors.surfaceBorder || "#353535",
-    "--surfaceBorderHover": colors.surfaceBorderHover || "#464646",
-    "--surfaceBorderActive": colors.surfaceBorderActive || "#595959",
-    
-    // Nav button colors
-    "--navButtonBg": colors.navButtonBg || "transparent",
-    "--navButtonBgHover": colors.navButtonBgHover || "#ffffff1a",
-    "--navButtonBgActive": colors.navButtonBgActive || "#ffffff2e",
-    "--navButtonText": colors.navButtonText || "#ededed",
-    "--navButtonTextHover": colors.navButtonTextHover || "#f6f6f6",
-    "--navButtonTextActive": colors.navButtonTextActive || "#ffffff",
-    "--navButtonBorder": colors.navButtonBorder || "#4a4a4a",
-    "--navButtonBorderHover": colors.navButtonBorderHover || "#5b5b5b",
-    "--navButtonBorderActive": colors.navButtonBorderActive || "#6f6f6f",
-    
-    // Download button colors
-    "--downloadButtonBg": colors.downloadButtonBg || "#2a2a2a",
-    "--downloadButtonBgHover": colors.downloadButtonBgHover || "#353535",
-    "--downloadButtonBgActive": colors.downloadButtonBgActive || "#404040",
-    "--downloadButtonText": colors.downloadButtonText || "#ededed",
-    "--downloadButtonTextHover": colors.downloadButtonTextHover || "#f6f6f6",
-    "--downloadButtonTextActive": colors.downloadButtonTextActive || "#ffffff",
-    "--downloadButtonBorder": colors.downloadButtonBorder || "#4a4a4a",
-    "--downloadButtonBorderHover": colors.downloadButtonBorderHover || "#5b5b5b",
-    "--downloadButtonBorderActive": colors.downloadButtonBorderActive || "#6f6f6f",
-    
-    // Field colors
-    "--fieldBg": colors.fieldBg || "#181818",
-    "--fieldBgHover": colors.fieldBgHover || "#202020",
-    "--fieldBgActive": colors.fieldBgActive || "#282828",
-    "--fieldText": colors.fieldText || "#efefef",
-    "--fieldTextPlaceholder": colors.fieldTextPlaceholder || "#8b8b8b",
-    "--fieldBorder": colors.fieldBorder || "#3a3a3a",
-    "--fieldBorderHover": colors.fieldBorderHover || "#4b4b4b",
-    "--fieldBorderActive": colors.fieldBorderActive || "#5f5f5f",
-    
-    // Settings colors
-    "--settingsCardBg": colors.settingsCardBg || "#1d1d1d",
-    "--settingsCardBorder": colors.settingsCardBorder || "#353535",
-    "--settingsCardText": colors.settingsCardText || "#e8e8e8",
-    "--settingsCardDescription": colors.settingsCardDescription || "#b9b9b9",
-    "--settingsTabsBg": colors.settingsTabsBg || "#202020",
-    "--settingsTabsBorder": colors.settingsTabsBorder || "#3f3f3f",
-    "--settingsRowBg": colors.settingsRowBg || "#232323",
-    "--settingsRowBgHover": colors.settingsRowBgHover || "#2c2c2c",
-    "--settingsRowBorder": colors.settingsRowBorder || "#3f3f3f",
-    "--settingsRowBorderHover": colors.settingsRowBorderHover || "#525252",
-    
-    // Context menu colors
-    "--contextMenuBg": colors.contextMenuBg || "#202020",
-    "--contextMenuBgHover": colors.contextMenuBgHover || "#2b2b2b",
-    "--contextMenuBgActive": colors.contextMenuBgActive || "#363636",
-    "--contextMenuText": colors.contextMenuText || "#efefef",
-    "--contextMenuTextHover": colors.contextMenuTextHover || "#ffffff",
-    "--contextMenuBorder": colors.contextMenuBorder || "#474747",
-    "--contextMenuDivider": colors.contextMenuDivider || "#5f5f5f",
-    "--contextMenuShadow": colors.contextMenuShadow || "0 16px 38px rgba(0, 0, 0, 0.46)",
-    
-    // Accent colors
-    "--accentPrimary": colors.accentPrimary || "#8f8f85",
-    "--accentPrimarySoft": colors.accentPrimarySoft || "#77776f",
-    "--accentText": colors.accentText || "#cfcfc8",
-    
+    ...Object.fromEntries(
+      Object.entries(DEFAULT_THEME_COLORS).map(([key, fallback]) => [`--${key}`, colors[key] || fallback])
+    ),
+
     // Layout values
     "--layoutControlRadius": "6px",
     "--layoutInputRadius": "6px",
@@ -140,10 +46,9 @@ export function ThemePreview({ cssContent }: ThemePreviewProps) {
     "--layoutBorderWidth": "1px",
     
     // Fonts
-    "--fontPrimaryFamily": fonts.fontPrimaryFamily || "'Segoe UI'",
-    "--fontSecondaryFamily": fonts.fontSecondaryFamily || "'Segoe UI'",
-    "--fontPrimaryWeight": fonts.fontPrimaryWeight || "400",
-    "--fontSecondaryWeight": fonts.fontSecondaryWeight || "300",
+    ...Object.fromEntries(
+      Object.entries(DEFAULT_THEME_FONTS).map(([key, fallback]) => [`--${key}`, fonts[key] || fallback])
+    ),
     "--fontPrimaryFallbackFamily": "'Segoe UI', -apple-system, BlinkMacSystemFont, sans-serif",
     "--fontSecondaryFallbackFamily": "'Segoe UI', -apple-system, BlinkMacSystemFont, sans-serif",
   } as React.CSSProperties;
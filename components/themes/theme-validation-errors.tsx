@@ -0,0 +1,28 @@
+import type { ThemeFieldError } from "@/lib/themes/schema";
+
+interface ThemeValidationErrorsProps {
+  errors: ThemeFieldError[];
+  title?: string;
+}
+
+export function ThemeValidationErrors({
+  errors,
+  title = "This theme has problems:",
+}: ThemeValidationErrorsProps) {
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="theme-validation-errors" role="alert">
+      <p className="theme-validation-title">{title}</p>
+      <ul className="theme-validation-list">
+        {errors.map((error, i) => (
+          <li key={`${error.field}-${i}`}>
+            {error.field && <code>{error.field}</code>} {error.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
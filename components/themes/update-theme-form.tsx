@@ -4,26 +4,28 @@ import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import type { Theme } from "@/lib/themes/types";
+import {
+  parseThemeFile,
+  serializeThemeContent,
+  type ThemeFieldError,
+} from "@/lib/themes/schema";
+import { validateVersionBump } from "@/lib/semver";
+import { updateTheme } from "@/app/themes/[id]/actions";
+import { ThemeValidationErrors } from "./theme-validation-errors";
 
 interface UpdateThemeFormProps {
   theme: Theme;
 }
 
-interface ThemeJson {
-  name?: string;
-  author?: string;
-  version?: string;
-  mode?: string;
-  fonts?: Record<string, string>;
-  colors?: Record<string, string>;
-}
-
 export function UpdateThemeForm({ theme }: UpdateThemeFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [jsonFileName, setJsonFileName] = useState<string | null>(null);
   const [newVersion, setNewVersion] = useState<string>(theme.version);
   const [newCssContent, setNewCssContent] = useState<string>(theme.css_content);
+  const [changelog, setChangelog] = useState("");
+  const [validationErrors, setValidationErrors] = useState<ThemeFieldError[]>([]);
+  const [submitErrors, setSubmitErrors] = useState<ThemeFieldError[]>([]);
 
   const handleJsonUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -33,57 +35,49 @@ export function UpdateThemeForm({ theme }: UpdateThemeFormProps) {
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        const json = JSON.parse(event.target?.result as string) as ThemeJson;
-
-        // Extract theme data (mode, fonts, colors) from the JSON
-        const themeData = {
-          mode: json.mode,
-          fonts: json.fonts,
-          colors: json.colors,
-        };
-
-        setNewCssContent(JSON.stringify(themeData, null, 2));
-        setNewVersion(json.version || theme.version);
-      } catch (error) {
-        console.error("Failed to parse JSON:", error);
-        alert("Invalid JSON file. Please check the file format.");
+      const result = parseThemeFile(event.target?.result as string);
+      if (!result.ok) {
+        setValidationErrors(result.errors);
+        setNewCssContent(theme.css_content);
+        setNewVersion(theme.version);
+        return;
       }
+
+      // Only mode, fonts and colors are stored in css_content
+      setValidationErrors([]);
+      setNewCssContent(serializeThemeContent(result.data));
+      setNewVersion(result.data.version || theme.version);
     };
     reader.readAsText(file);
-  }, [theme.version]);
+  }, [theme.css_content, theme.version]);
+
+  const versionError = jsonFileName ? validateVersionBump(newVersion, theme.version) : null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setSubmitErrors([]);
     setIsSubmitting(true);
 
     try {
-      const supabase = createClient();
-
-      // Update theme - only css_content and version
-      const { error: themeError } = await supabase
-        .from("themes")
-        .update({
-          css_content: newCssContent,
-          version: newVersion,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", theme.id);
-
-      if (themeError) throw themeError;
-
-      // Save version history
-      await supabase.from("versions").insert({
-        theme_id: theme.id,
+      const result = await updateTheme(theme.id, {
         version: newVersion,
         css_content: newCssContent,
+        changelog,
       });
 
-      router.push(`/themes/${theme.id}`);
+      if (!result.ok) {
+        setSubmitErrors(result.errors);
+        return;
+      }
+
+      // Unapproved themes have no public page yet, so stay on the edit page
+      if (theme.status === "approved") {
+        router.push(`/themes/${theme.id}`);
+      }
       router.refresh();
     } catch (error) {
       console.error("Update error:", error);
-      alert("Failed to update theme. Please try again.");
+      setSubmitErrors([{ field: "", message: "Failed to update theme. Please try again." }]);
     } finally {
       setIsSubmitting(false);
     }
@@ -168,31 +162,53 @@ export function UpdateThemeForm({ theme }: UpdateThemeFormProps) {
         <small className="form-hint">
           Upload a JSON file to update the theme colors, fonts, and version
         </small>
+        <ThemeValidationErrors errors={validationErrors} />
       </div>
 
-      {/* New Version (read-only, extracted from JSON) */}
+      {/* New Version (prefilled from JSON) */}
       <div className="form-group">
-        <label htmlFor="new-version">New Version (from JSON)</label>
+        <label htmlFor="new-version">New Version *</label>
         <input
           type="text"
           id="new-version"
           value={newVersion}
-          disabled
-          className="form-input"
-          style={{ opacity: 0.6, cursor: "not-allowed" }}
+          onChange={(e) => setNewVersion(e.target.value)}
+          disabled={!jsonFileName}
+          className={`form-input${versionError ? " invalid" : ""}`}
+          placeholder="1.0.1"
         />
         <small className="form-hint">
-          Version will be updated from the uploaded JSON file
+          {versionError ?? `Prefilled from the uploaded JSON. Must be greater than ${theme.version}.`}
         </small>
       </div>
 
+      {/* Changelog */}
+      <div className="form-group">
+        <label htmlFor="changelog">Changelog</label>
+        <textarea
+          id="changelog"
+          value={changelog}
+          onChange={(e) => setChangelog(e.target.value)}
+          rows={4}
+          maxLength={2000}
+          className="form-textarea"
+          placeholder="What changed in this version? Markdown is supported."
+        />
+      </div>
+
+      <ThemeValidationErrors errors={submitErrors} title="The update could not be saved:" />
+
       <div className="form-actions">
         <button
           type="submit"
-          disabled={isSubmitting || !jsonFileName}
+          disabled={isSubmitting || !jsonFileName || validationErrors.length > 0 || !!versionError}
           className="btn btn-primary"
         >
-          {isSubmitting ? "Updating..." : "Update Theme"}
+          {isSubmitting
+            ? "Updating..."
+            : theme.status === "rejected"
+              ? "Resubmit for Review"
+              : "Update Theme"}
         </button>
         <button
           type="button"
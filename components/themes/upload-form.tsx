@@ -3,6 +3,10 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
+import { parseThemeFile, serializeThemeContent, type ThemeFieldError } from "@/lib/themes/schema";
+import { MAX_THEME_TAGS } from "@/lib/themes/tags";
+import { submitTheme } from "@/app/themes/upload/actions";
+import { ThemeValidationErrors } from "./theme-validation-errors";
 
 interface Tag {
   id: string;
@@ -15,15 +19,6 @@ interface UploadFormProps {
   authorName?: string;
 }
 
-interface ThemeJson {
-  name?: string;
-  author?: string;
-  version?: string;
-  mode?: string;
-  fonts?: Record<string, string>;
-  colors?: Record<string, string>;
-}
-
 export function UploadForm({ userId, authorName }: UploadFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -33,11 +28,12 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
     css_content: "",
     version: "1.0.0",
   });
-  const [themeMode, setThemeMode] = useState<string | null>(null);
   const [tags, setTags] = useState<string[]>([]);
   const [availableTags, setAvailableTags] = useState<Tag[]>([]);
   const [jsonFileName, setJsonFileName] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<ThemeFieldError[]>([]);
+  const [submitErrors, setSubmitErrors] = useState<ThemeFieldError[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -55,26 +51,28 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
   const processFile = useCallback(
     (file: File) => {
       if (!file.name.endsWith(".json")) {
-        alert("Please upload a .json file.");
+        setValidationErrors([{ field: "", message: "Please upload a .json file." }]);
         return;
       }
       setJsonFileName(file.name);
       const reader = new FileReader();
       reader.onload = (event) => {
-        try {
-          const json = JSON.parse(event.target?.result as string) as ThemeJson;
-          const themeData = { mode: json.mode, fonts: json.fonts, colors: json.colors };
-          setFormData((prev) => ({
-            ...prev,
-            name: json.name || prev.name,
-            author_name: userId ? prev.author_name : json.author || prev.author_name,
-            css_content: JSON.stringify(themeData, null, 2),
-            version: json.version || prev.version,
-          }));
-          setThemeMode(json.mode || null);
-        } catch {
-          alert("Invalid JSON file. Please check the file format.");
+        const result = parseThemeFile(event.target?.result as string);
+        if (!result.ok) {
+          setValidationErrors(result.errors);
+          setFormData((prev) => ({ ...prev, css_content: "" }));
+          return;
         }
+
+        const json = result.data;
+        setValidationErrors([]);
+        setFormData((prev) => ({
+          ...prev,
+          name: json.name || prev.name,
+          author_name: userId ? prev.author_name : json.author || prev.author_name,
+          css_content: serializeThemeContent(json),
+          version: json.version || prev.version,
+        }));
       };
       reader.readAsText(file);
     },
@@ -108,70 +106,20 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setSubmitErrors([]);
     setIsSubmitting(true);
 
     try {
-      const supabase = createClient();
-
-      const { data: theme, error: themeError } = await supabase
-        .from("themes")
-        .insert({
-          name: formData.name,
-          author_name: formData.author_name,
-          user_id: userId || null,
-          css_content: formData.css_content,
-          version: formData.version,
-          status: "under_review",
-        })
-        .select()
-        .single();
-
-      if (themeError) throw themeError;
-
-      const mode = themeMode?.toLowerCase();
-      if (mode === "light" || mode === "dark") {
-        const { data: existingTag } = await supabase
-          .from("tags")
-          .select("id")
-          .eq("slug", mode)
-          .single();
-
-        let tagId: string;
-        if (existingTag) {
-          tagId = existingTag.id;
-        } else {
-          const { data: newTag, error: tagError } = await supabase
-            .from("tags")
-            .insert({ name: mode.charAt(0).toUpperCase() + mode.slice(1), slug: mode })
-            .select()
-            .single();
-          if (tagError) throw tagError;
-          tagId = newTag.id;
-        }
-        await supabase.from("theme_tags").insert({ theme_id: theme.id, tag_id: tagId });
-      }
-
-      for (const tagName of tags.slice(0, 3)) {
-        const slug = tagName.toLowerCase().replace(/\s+/g, "-");
-        const { data: existingTag } = await supabase
-          .from("tags")
-          .select("id")
-          .eq("slug", slug)
-          .single();
-
-        let tagId: string;
-        if (existingTag) {
-          tagId = existingTag.id;
-        } else {
-          const { data: newTag, error: tagError } = await supabase
-            .from("tags")
-            .insert({ name: tagName, slug })
-            .select()
-            .single();
-          if (tagError) continue;
-          tagId = newTag.id;
-        }
-        await supabase.from("theme_tags").insert({ theme_id: theme.id, tag_id: tagId });
+      const result = await submitTheme({
+        name: formData.name,
+        version: formData.version,
+        css_content: formData.css_content,
+        tags,
+      });
+
+      if (!result.ok) {
+        setSubmitErrors(result.errors);
+        return;
       }
 
       if (userId) {
@@ -181,7 +129,7 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
       }
     } catch (error) {
       console.error("Upload error:", error);
-      alert("Failed to upload theme. Please try again.");
+      setSubmitErrors([{ field: "", message: "Failed to upload theme. Please try again." }]);
     } finally {
       setIsSubmitting(false);
     }
@@ -422,6 +370,7 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
                 className="drop-zone-replace"
                 onClick={() => {
                   setJsonFileName(null);
+                  setValidationErrors([]);
                   if (fileInputRef.current) fileInputRef.current.value = "";
                 }}
               >
@@ -474,6 +423,8 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
               />
             </div>
           )}
+
+          <ThemeValidationErrors errors={validationErrors} />
         </div>
 
         {/* ── Theme name ────────────────────────────────────────── */}
@@ -506,7 +457,7 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
           <label>
             Tags{" "}
             <span style={{ fontWeight: 400, color: "var(--text-tertiary, #9ca3af)" }}>
-              (up to 3)
+              (up to {MAX_THEME_TAGS})
             </span>
           </label>
 
@@ -529,7 +480,7 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
             </div>
 
             {/* Available options */}
-            {tags.length < 3 && unselectedTags.length > 0 && (
+            {tags.length < MAX_THEME_TAGS && unselectedTags.length > 0 && (
               <div className="tag-available" role="group" aria-label="Available tags">
                 {unselectedTags.map((tag) => (
                   <button
@@ -537,7 +488,7 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
                     type="button"
                     className="tag-option"
                     onClick={() => setTags([...tags, tag.name])}
-                    disabled={tags.length >= 3}
+                    disabled={tags.length >= MAX_THEME_TAGS}
                   >
                     + {tag.name}
                   </button>
@@ -561,6 +512,8 @@ export function UploadForm({ userId, authorName }: UploadFormProps) {
           </div>
         </div>
 
+        <ThemeValidationErrors errors={submitErrors} title="The theme could not be submitted:" />
+
         <button type="submit" disabled={isSubmitting} className="btn btn-primary">
           {isSubmitting ? "Uploading…" : "Upload Theme"}
         </button>
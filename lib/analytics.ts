@@ -0,0 +1,330 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Theme, ThemeVersion } from "@/lib/themes/types";
+
+export type AnalyticsBucket = "day" | "week";
+
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+export const DEFAULT_ANALYTICS_RANGE = 30;
+
+export const ANALYTICS_SERIES = [
+  "downloads",
+  "submissions",
+  "approvals",
+  "users",
+  "top-themes",
+] as const;
+export type AnalyticsSeries = (typeof ANALYTICS_SERIES)[number];
+
+export interface SeriesPoint {
+  // Start of the bucket as YYYY-MM-DD (UTC); weeks start on Monday
+  date: string;
+  count: number;
+}
+
+export interface TopTheme {
+  id: string;
+  name: string;
+  downloads: number;
+}
+
+export interface AnalyticsReport {
+  days: number;
+  bucket: AnalyticsBucket;
+  downloads: SeriesPoint[];
+  submissions: SeriesPoint[];
+  approvals: SeriesPoint[];
+  newUsers: SeriesPoint[];
+  topThemes: TopTheme[];
+}
+
+export interface VersionDownloads {
+  version: string;
+  downloads: number;
+}
+
+export interface TagRank {
+  slug: string;
+  name: string;
+  rank: number;
+  total: number;
+}
+
+export interface ThemeStats {
+  days: number;
+  bucket: AnalyticsBucket;
+  downloads: SeriesPoint[];
+  totalDownloads: number;
+  uniqueDownloaders: number;
+  perVersion: VersionDownloads[];
+  tagRanks: TagRank[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// PostgREST caps responses at 1000 rows, so larger windows are read in pages
+const PAGE_SIZE = 1000;
+const TOP_THEMES_LIMIT = 10;
+
+export function parseAnalyticsParams(params: { range?: string; bucket?: string }) {
+  const range = Number(params.range);
+  const days = (ANALYTICS_RANGES as readonly number[]).includes(range)
+    ? range
+    : DEFAULT_ANALYTICS_RANGE;
+  const bucket: AnalyticsBucket = params.bucket === "week" ? "week" : "day";
+
+  return { days, bucket };
+}
+
+function startOfBucket(date: Date, bucket: AnalyticsBucket): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === "week") {
+    // getUTCDay() is 0 for Sunday; shift so Monday starts the week
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+}
+
+/** Counts timestamps per bucket, including empty buckets across the window. */
+export function buildSeries(
+  timestamps: string[],
+  since: Date,
+  until: Date,
+  bucket: AnalyticsBucket
+): SeriesPoint[] {
+  const counts = new Map<string, number>();
+  const step = bucket === "week" ? 7 * DAY_MS : DAY_MS;
+
+  for (let t = startOfBucket(since, bucket).getTime(); t <= until.getTime(); t += step) {
+    counts.set(new Date(t).toISOString().slice(0, 10), 0);
+  }
+
+  for (const timestamp of timestamps) {
+    const key = startOfBucket(new Date(timestamp), bucket).toISOString().slice(0, 10);
+    if (counts.has(key)) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([date, count]) => ({ date, count }));
+}
+
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error("Error fetching analytics rows:", error);
+      break;
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/** Sum of every theme's download counter, added up in the database. */
+export async function getTotalDownloads(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("get_total_downloads");
+  if (error) {
+    console.error("Error fetching total downloads:", error);
+    return 0;
+  }
+  return Number(data ?? 0);
+}
+
+function getWindow(days: number) {
+  const until = new Date();
+  const since = new Date(until.getTime() - (days - 1) * DAY_MS);
+  since.setUTCHours(0, 0, 0, 0);
+  return { since, until };
+}
+
+export async function getAnalyticsReport(
+  supabase: SupabaseClient,
+  { days, bucket }: { days: number; bucket: AnalyticsBucket }
+): Promise<AnalyticsReport> {
+  const { since, until } = getWindow(days);
+  const sinceIso = since.toISOString();
+
+  const [downloads, submissions, approvals, users] = await Promise.all([
+    fetchAllRows<{ theme_id: string; downloaded_at: string }>((from, to) =>
+      supabase
+        .from("download_logs")
+        .select("theme_id, downloaded_at")
+        .gte("downloaded_at", sinceIso)
+        .order("downloaded_at")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows<{ created_at: string }>((from, to) =>
+      supabase
+        .from("themes")
+        .select("created_at")
+        .gte("created_at", sinceIso)
+        .order("created_at")
+        .order("id")
+        .range(from, to)
+    ),
+    // Approvals are only known from the moderation audit log
+    fetchAllRows<{ created_at: string }>((from, to) =>
+      supabase
+        .from("moderation_audit_log")
+        .select("created_at")
+        .eq("action", "approve_theme")
+        .gte("created_at", sinceIso)
+        .order("created_at")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAllRows<{ created_at: string }>((from, to) =>
+      supabase
+        .from("profiles")
+        .select("created_at")
+        .gte("created_at", sinceIso)
+        .order("created_at")
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+
+  const downloadsByTheme = new Map<string, number>();
+  for (const row of downloads) {
+    downloadsByTheme.set(row.theme_id, (downloadsByTheme.get(row.theme_id) ?? 0) + 1);
+  }
+  const topIds = Array.from(downloadsByTheme)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_THEMES_LIMIT);
+
+  const nameMap = new Map<string, string>();
+  if (topIds.length > 0) {
+    const { data: themes } = await supabase
+      .from("themes")
+      .select("id, name")
+      .in("id", topIds.map(([id]) => id));
+    for (const theme of themes || []) {
+      nameMap.set(theme.id, theme.name);
+    }
+  }
+
+  return {
+    days,
+    bucket,
+    downloads: buildSeries(downloads.map((row) => row.downloaded_at), since, until, bucket),
+    submissions: buildSeries(submissions.map((row) => row.created_at), since, until, bucket),
+    approvals: buildSeries(approvals.map((row) => row.created_at), since, until, bucket),
+    newUsers: buildSeries(users.map((row) => row.created_at), since, until, bucket),
+    topThemes: topIds.map(([id, count]) => ({
+      id,
+      name: nameMap.get(id) ?? "Deleted theme",
+      downloads: count,
+    })),
+  };
+}
+
+/**
+ * Author-facing stats for one theme. Downloads are attributed to whichever
+ * version was live at the time; downloads before the first recorded update
+ * count toward the initial release.
+ */
+export async function getThemeStats(
+  supabase: SupabaseClient,
+  theme: Theme,
+  versions: ThemeVersion[],
+  { days, bucket }: { days: number; bucket: AnalyticsBucket }
+): Promise<ThemeStats> {
+  const { since, until } = getWindow(days);
+
+  const logs = await fetchAllRows<{
+    user_id: string | null;
+    ip_address: string | null;
+    downloaded_at: string;
+  }>((from, to) =>
+    supabase
+      .from("download_logs")
+      .select("user_id, ip_address, downloaded_at")
+      .eq("theme_id", theme.id)
+      .order("downloaded_at")
+      .order("id")
+      .range(from, to)
+  );
+
+  const downloaders = new Set(logs.map((log) => log.user_id ?? log.ip_address ?? ""));
+
+  const timeline = [...versions].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const initialLabel = timeline.length > 0 ? "Initial release" : theme.version;
+  const perVersion = new Map<string, number>([[initialLabel, 0]]);
+  for (const v of timeline) perVersion.set(v.version, 0);
+
+  for (const log of logs) {
+    const downloadedAt = new Date(log.downloaded_at).getTime();
+    let version = initialLabel;
+    for (const v of timeline) {
+      if (new Date(v.created_at).getTime() > downloadedAt) break;
+      version = v.version;
+    }
+    perVersion.set(version, (perVersion.get(version) ?? 0) + 1);
+  }
+
+  const tagRanks = await Promise.all(
+    (theme.theme_tags || []).map(async ({ tags }): Promise<TagRank> => {
+      const inTag = () =>
+        supabase
+          .from("themes")
+          .select("id, theme_tags!inner(tags!inner(slug))", { count: "exact", head: true })
+          .eq("status", "approved")
+          .eq("theme_tags.tags.slug", tags.slug);
+
+      const [{ count: ahead }, { count: total }] = await Promise.all([
+        inTag().gt("download_count", theme.download_count),
+        inTag(),
+      ]);
+
+      return { slug: tags.slug, name: tags.name, rank: (ahead ?? 0) + 1, total: total ?? 0 };
+    })
+  );
+
+  return {
+    days,
+    bucket,
+    downloads: buildSeries(logs.map((log) => log.downloaded_at), since, until, bucket),
+    totalDownloads: logs.length,
+    uniqueDownloaders: downloaders.size,
+    perVersion: Array.from(perVersion, ([version, downloads]) => ({ version, downloads })).reverse(),
+    tagRanks,
+  };
+}
+
+function escapeCsvField(value: string | number): string {
+  // Spreadsheets run text starting with these as a formula, so theme names
+  // like "=HYPERLINK(...)" are defused with a leading quote
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\n") + "\n";
+}
+
+/** CSV rows (with a header) for one series of the report. */
+export function getSeriesCsvRows(report: AnalyticsReport, series: AnalyticsSeries) {
+  if (series === "top-themes") {
+    return [
+      ["theme_id", "name", "downloads"],
+      ...report.topThemes.map((theme) => [theme.id, theme.name, theme.downloads]),
+    ];
+  }
+
+  const points = {
+    downloads: report.downloads,
+    submissions: report.submissions,
+    approvals: report.approvals,
+    users: report.newUsers,
+  }[series];
+
+  return [[report.bucket, series], ...points.map((point) => [point.date, point.count])];
+}
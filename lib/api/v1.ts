@@ -0,0 +1,190 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getSiteUrl } from "@/lib/site-url";
+import type { Profile, Tag, Theme, ThemeVersion } from "@/lib/themes/types";
+
+// Public response shapes for /api/v1. These are a stable contract for
+// third-party tooling: add fields freely, never rename or remove them.
+
+export interface ApiTag {
+  name: string;
+  slug: string;
+}
+
+export interface ApiAuthor {
+  name: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export interface ApiProfile {
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  created_at: string;
+}
+
+export interface ApiThemeContent {
+  mode?: string;
+  fonts?: Record<string, string>;
+  colors?: Record<string, string>;
+}
+
+export interface ApiTheme {
+  id: string;
+  name: string;
+  description: string | null;
+  version: string;
+  download_count: number;
+  rating: { average: number | null; count: number };
+  like_count: number;
+  author: ApiAuthor;
+  tags: ApiTag[];
+  forked_from: string | null;
+  created_at: string;
+  updated_at: string;
+  url: string;
+}
+
+export interface ApiThemeVersion {
+  version: string;
+  changelog: string | null;
+  created_at: string;
+  content: ApiThemeContent | null;
+}
+
+export interface ApiThemeDetail extends ApiTheme {
+  content: ApiThemeContent | null;
+  versions: ApiThemeVersion[];
+}
+
+export interface ApiList<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    offset: number;
+    next_offset: number | null;
+  };
+}
+
+export interface ApiError {
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+const CACHE_CONTROL = "public, max-age=60, s-maxage=300, stale-while-revalidate=600";
+
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_PAGE_SIZE = 24;
+
+function parseContent(cssContent: string): ApiThemeContent | null {
+  try {
+    const { mode, fonts, colors } = JSON.parse(cssContent) as ApiThemeContent;
+    return { mode, fonts: fonts || {}, colors: colors || {} };
+  } catch {
+    return null;
+  }
+}
+
+export function toApiTag(tag: Tag): ApiTag {
+  return { name: tag.name, slug: tag.slug };
+}
+
+export function toApiProfile(profile: Profile): ApiProfile {
+  return {
+    username: profile.username,
+    display_name: profile.display_name,
+    avatar_url: profile.avatar_url,
+    bio: profile.bio,
+    created_at: profile.created_at,
+  };
+}
+
+export function toApiTheme(theme: Theme): ApiTheme {
+  return {
+    id: theme.id,
+    name: theme.name,
+    description: theme.description,
+    version: theme.version,
+    download_count: theme.download_count,
+    rating: { average: theme.rating_average ?? null, count: theme.rating_count ?? 0 },
+    like_count: theme.like_count ?? 0,
+    author: {
+      name: theme.author_name,
+      username: theme.profiles?.username ?? null,
+      display_name: theme.profiles?.display_name ?? null,
+      avatar_url: theme.profiles?.avatar_url ?? null,
+    },
+    tags: (theme.theme_tags || []).map(({ tags }) => toApiTag(tags)),
+    forked_from: theme.forked_from ?? null,
+    created_at: theme.created_at,
+    updated_at: theme.updated_at,
+    url: `${getSiteUrl()}/themes/${theme.id}`,
+  };
+}
+
+export function toApiThemeDetail(theme: Theme, versions: ThemeVersion[]): ApiThemeDetail {
+  return {
+    ...toApiTheme(theme),
+    content: parseContent(theme.css_content),
+    versions: versions.map((v) => ({
+      version: v.version,
+      changelog: v.changelog ?? null,
+      created_at: v.created_at,
+      content: parseContent(v.css_content),
+    })),
+  };
+}
+
+export function parsePagination(searchParams: URLSearchParams): { limit: number; offset: number } | null {
+  const limit = Number(searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(searchParams.get("offset") ?? 0);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) return null;
+  if (!Number.isInteger(offset) || offset < 0) return null;
+
+  return { limit, offset };
+}
+
+export function toApiList<T>(data: T[], limit: number, offset: number): ApiList<T> {
+  return {
+    data,
+    pagination: {
+      limit,
+      offset,
+      next_offset: data.length === limit ? offset + limit : null,
+    },
+  };
+}
+
+export function apiError(status: number, code: string, message: string) {
+  return NextResponse.json<ApiError>({ error: { code, message } }, { status });
+}
+
+/**
+ * Returns a JSON response with a content-derived ETag, answering with 304
+ * when the client's If-None-Match already matches.
+ */
+export function cachedJson(request: NextRequest, body: unknown) {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ETag: etag,
+    "Cache-Control": CACHE_CONTROL,
+    "Access-Control-Allow-Origin": "*",
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch && ifNoneMatch.split(",").some((tag) => tag.trim() === etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
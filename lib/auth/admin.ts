@@ -0,0 +1,87 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { forbidden } from "next/navigation";
+import type { ProfileRole } from "@/lib/themes/types";
+
+// Higher index means more access: moderators review themes, admins can also
+// delete them and read the audit log
+const ROLE_RANK: Record<ProfileRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+export type StaffRole = Exclude<ProfileRole, "user">;
+
+export class AdminAccessError extends Error {
+  constructor(
+    public readonly status: 401 | 403,
+    message: string
+  ) {
+    super(message);
+    this.name = "AdminAccessError";
+  }
+}
+
+/** Resolves a profile's role; the older is_admin flag still counts as admin. */
+export function getProfileRole(
+  profile: { role?: string | null; is_admin?: boolean | null } | null | undefined
+): ProfileRole {
+  if (!profile) return "user";
+  if (profile.role === "admin" || profile.role === "moderator") return profile.role;
+  return profile.is_admin ? "admin" : "user";
+}
+
+export function hasRole(role: ProfileRole, required: StaffRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Shared guard for admin pages, server actions and the proxy. Throws an
+ * AdminAccessError (401 when signed out, 403 when the role is too low), or a
+ * plain Error when the role can't be loaded.
+ */
+export async function requireAdmin(
+  supabase: SupabaseClient,
+  required: StaffRole = "moderator"
+): Promise<{ user: User; role: ProfileRole }> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new AdminAccessError(401, "You must be signed in");
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("role, is_admin")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error("Failed to load profile role: " + error.message);
+  }
+
+  const role = getProfileRole(profile);
+  if (!hasRole(role, required)) {
+    throw new AdminAccessError(403, "You don't have permission to do that");
+  }
+
+  return { user, role };
+}
+
+/**
+ * requireAdmin for server-rendered pages: missing access renders the 403
+ * page, while other failures reach the error boundary.
+ */
+export async function requireAdminPage(
+  supabase: SupabaseClient,
+  required: StaffRole = "moderator"
+): Promise<{ user: User; role: ProfileRole }> {
+  try {
+    return await requireAdmin(supabase, required);
+  } catch (error) {
+    if (error instanceof AdminAccessError) forbidden();
+    throw error;
+  }
+}
@@ -0,0 +1,14 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const SUSPENDED_MESSAGE = "Your account is suspended. Contact the moderators if you think this is a mistake.";
+
+/** Suspended users can still browse and download, but not post anything. */
+export async function isUserSuspended(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("suspended_at")
+    .eq("id", userId)
+    .single();
+
+  return !!profile?.suspended_at;
+}
@@ -0,0 +1,73 @@
+// Helpers for talking to the Mira desktop app when the site is opened inside it.
+
+export interface MiraThemeFile {
+  name: string;
+  author: string;
+  version: string;
+  mode: string;
+  fonts: Record<string, string>;
+  colors: Record<string, string>;
+}
+
+// Bridge object the desktop app exposes on `window.mira`
+export interface MiraBridge {
+  version?: string;
+  installTheme?: (theme: MiraThemeFile) => Promise<boolean | void> | boolean | void;
+}
+
+const MIRA_USER_AGENT = /\bMira\/([\d.]+)\b/;
+
+export function getMiraBridge(): MiraBridge | null {
+  if (typeof window === "undefined") return null;
+  return (window as unknown as { mira?: MiraBridge }).mira ?? null;
+}
+
+export function getMiraVersionFromUserAgent(userAgent: string): string | null {
+  return userAgent.match(MIRA_USER_AGENT)?.[1] ?? null;
+}
+
+export function isMiraBrowser(): boolean {
+  if (typeof window === "undefined") return false;
+  return getMiraBridge() !== null || getMiraVersionFromUserAgent(navigator.userAgent || "") !== null;
+}
+
+export function buildThemeInstallUrl(themeId: string, origin: string): string {
+  const params = new URLSearchParams({
+    id: themeId,
+    source: `${origin}/api/v1/themes/${themeId}`,
+  });
+  return `mira://theme/install?${params.toString()}`;
+}
+
+export function buildMiraThemeFile({
+  name,
+  author,
+  version,
+  cssContent,
+}: {
+  name: string;
+  author: string;
+  version: string;
+  cssContent: string;
+}): MiraThemeFile {
+  let themeData: Partial<MiraThemeFile> = {};
+  try {
+    themeData = JSON.parse(cssContent || "{}");
+  } catch {
+    // Fall back to an empty theme so the file is still importable
+  }
+
+  return {
+    name,
+    author,
+    version,
+    mode: themeData.mode || "dark",
+    fonts: themeData.fonts || {},
+    colors: themeData.colors || {},
+  };
+}
+
+export function getThemeFileName(themeName: string): string {
+  const slug = themeName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "theme"}.json`;
+}
@@ -0,0 +1,57 @@
+export type ParsedSemver = {
+  major: number;
+  minor: number;
+  patch: number;
+};
+
+// MAJOR.MINOR.PATCH with optional pre-release and build suffixes, and nothing
+// after them
+const THEME_VERSION_PATTERN = /^v?\d+\.\d+\.\d+(?:-[0-9a-z.-]+)?(?:\+[0-9a-z.-]+)?$/i;
+
+export function parseSemver(value: string): ParsedSemver | null {
+  const cleaned = value.trim().replace(/^v/i, "");
+  const numericPrefix = cleaned.match(/^[\d.]+/)?.[0] ?? cleaned;
+  const match = numericPrefix.match(/^(\d+)\.(\d+)\.(\d+)\b/);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+  };
+}
+
+/**
+ * Strict check for the versions authors give their themes. parseSemver stays
+ * lenient because it also reads release tags and user agent versions.
+ */
+export function isValidThemeVersion(value: string): boolean {
+  return THEME_VERSION_PATTERN.test(value.trim());
+}
+
+export function compareSemver(a: ParsedSemver, b: ParsedSemver): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  return a.patch - b.patch;
+}
+
+/**
+ * Checks that `next` is a valid version strictly greater than `current`.
+ * Returns an error message, or null when the bump is allowed.
+ */
+export function validateVersionBump(next: string, current: string): string | null {
+  const parsedNext = isValidThemeVersion(next) ? parseSemver(next) : null;
+  if (!parsedNext) {
+    return `"${next}" is not a valid version. Use MAJOR.MINOR.PATCH, e.g. 1.2.0.`;
+  }
+
+  const parsedCurrent = parseSemver(current);
+  if (parsedCurrent && compareSemver(parsedNext, parsedCurrent) <= 0) {
+    return `Version must be greater than the current version ${current}.`;
+  }
+
+  return null;
+}
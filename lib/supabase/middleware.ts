@@ -32,5 +32,6 @@ export async function updateSession(request: NextRequest) {
   // refreshing the auth token
   await supabase.auth.getUser();
 
-  return supabaseResponse;
+  // The client is returned too so the proxy can check roles without a second one
+  return { supabase, response: supabaseResponse };
 }
@@ -0,0 +1,23 @@
+export const MODERATION_ACTIONS = [
+  { id: "approve_theme", label: "Approved theme" },
+  { id: "reject_theme", label: "Rejected theme" },
+  { id: "delete_theme", label: "Deleted theme" },
+  { id: "edit_tags", label: "Edited tags" },
+  { id: "approve_revision", label: "Approved update" },
+  { id: "reject_revision", label: "Rejected update" },
+  { id: "delete_review", label: "Removed review" },
+  { id: "delete_comment", label: "Removed comment" },
+  { id: "dismiss_reports", label: "Dismissed reports" },
+  { id: "unpublish_theme", label: "Unpublished theme" },
+  { id: "suspend_user", label: "Suspended user" },
+] as const;
+
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number]["id"];
+
+export function isModerationAction(value: string): value is ModerationAction {
+  return MODERATION_ACTIONS.some((action) => action.id === value);
+}
+
+export function formatModerationAction(action: string): string {
+  return MODERATION_ACTIONS.find((a) => a.id === action)?.label ?? action;
+}
@@ -0,0 +1,234 @@
+import { THEME_COLOR_KEYS, THEME_FONT_KEYS, parseThemeContent, type ThemeFieldError } from "./schema";
+import { checkThemeContrast, type ContrastResult } from "./contrast";
+import { getColorDistance } from "./palette";
+import { DEFAULT_THEME_COLORS } from "./variables";
+
+// Automated pre-review report, stored on the theme when it enters the review
+// queue and shown to moderators next to each submission.
+export interface ThemeCheckReport {
+  checked_at: string;
+  schema_errors: ThemeFieldError[];
+  unknown_keys: string[];
+  contrast: ContrastResult[];
+  duplicates: ThemeDuplicateMatch[];
+  profanity: string[];
+}
+
+export interface ThemeDuplicateMatch {
+  id: string;
+  name: string;
+  // Share of colors that look the same, or null when only the name matches
+  similarity: number | null;
+  same_name: boolean;
+}
+
+export interface ThemeCheckInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  css_content: string;
+}
+
+export type DuplicateCandidate = Pick<ThemeCheckInput, "name" | "css_content"> & { id: string };
+
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.9;
+
+// CIE76 ΔE under which two colors count as the same for duplicate checks
+export const DUPLICATE_COLOR_DISTANCE = 8;
+
+// Kept short on purpose: it only flags submissions for a closer look
+const PROFANITY = [
+  "arse",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "cock",
+  "cunt",
+  "dick",
+  "fuck",
+  "nazi",
+  "porn",
+  "pussy",
+  "shit",
+  "slut",
+  "twat",
+  "wank",
+  "whore",
+];
+
+const PROFANITY_SUFFIXES = ["", "s", "es", "ed", "er", "ers", "ing", "y", "ty"];
+
+const LEET_REPLACEMENTS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+interface LooseThemeData {
+  mode?: unknown;
+  fonts?: unknown;
+  colors?: unknown;
+  [key: string]: unknown;
+}
+
+function parseLoose(cssContent: string): LooseThemeData | null {
+  try {
+    const parsed = JSON.parse(cssContent);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function stringValues(value: unknown): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(asRecord(value)).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    )
+  );
+}
+
+function findUnknownKeys(data: LooseThemeData): string[] {
+  const unknown: string[] = [];
+  const colorKeys: readonly string[] = THEME_COLOR_KEYS;
+  const fontKeys: readonly string[] = THEME_FONT_KEYS;
+
+  for (const key of Object.keys(data)) {
+    if (key !== "mode" && key !== "fonts" && key !== "colors") unknown.push(key);
+  }
+  for (const key of Object.keys(asRecord(data.colors))) {
+    if (!colorKeys.includes(key)) unknown.push(`colors.${key}`);
+  }
+  for (const key of Object.keys(asRecord(data.fonts))) {
+    if (!fontKeys.includes(key)) unknown.push(`fonts.${key}`);
+  }
+
+  return unknown;
+}
+
+function colorsMatch(left: string, right: string, mode: unknown): boolean {
+  if (left.trim().toLowerCase() === right.trim().toLowerCase()) return true;
+  const distance = getColorDistance(left, right, typeof mode === "string" ? mode : undefined);
+  return distance !== null && distance <= DUPLICATE_COLOR_DISTANCE;
+}
+
+// Compares the colors either theme sets; unset ones show as the defaults
+function colorSimilarity(a: LooseThemeData, b: LooseThemeData): number {
+  if (a.mode !== b.mode) return 0;
+
+  const defaults: Record<string, string> = DEFAULT_THEME_COLORS;
+  const colorsA = stringValues(a.colors);
+  const colorsB = stringValues(b.colors);
+  const keys = new Set([...Object.keys(colorsA), ...Object.keys(colorsB)]);
+  if (keys.size === 0) return 0;
+
+  let same = 0;
+  for (const key of keys) {
+    const left = colorsA[key] ?? defaults[key];
+    const right = colorsB[key] ?? defaults[key];
+    if (left !== undefined && right !== undefined && colorsMatch(left, right, a.mode)) {
+      same++;
+    }
+  }
+
+  return same / keys.size;
+}
+
+/** Returns each distinct profane word found, after undoing common leetspeak. */
+export function findProfanity(text: string): string[] {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => LEET_REPLACEMENTS[char] ?? char);
+  const words = new Set(normalized.split(/[^a-z]+/).filter(Boolean));
+  const found = new Set<string>();
+
+  for (const word of words) {
+    for (const base of PROFANITY) {
+      if (PROFANITY_SUFFIXES.some((suffix) => word === base + suffix)) {
+        found.add(base);
+      }
+    }
+  }
+
+  return Array.from(found);
+}
+
+export function findDuplicates(
+  theme: ThemeCheckInput,
+  candidates: DuplicateCandidate[]
+): ThemeDuplicateMatch[] {
+  const content = parseLoose(theme.css_content);
+  const name = theme.name.trim().toLowerCase();
+  const matches: ThemeDuplicateMatch[] = [];
+
+  for (const candidate of candidates) {
+    if (candidate.id === theme.id) continue;
+
+    const candidateContent = parseLoose(candidate.css_content);
+    const similarity = content && candidateContent ? colorSimilarity(content, candidateContent) : 0;
+    const sameName = candidate.name.trim().toLowerCase() === name;
+
+    if (similarity >= DUPLICATE_SIMILARITY_THRESHOLD || sameName) {
+      matches.push({
+        id: candidate.id,
+        name: candidate.name,
+        similarity: similarity >= DUPLICATE_SIMILARITY_THRESHOLD ? similarity : null,
+        same_name: sameName,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0));
+}
+
+/** Runs every automated check against a submission. */
+export function runThemeChecks(
+  theme: ThemeCheckInput,
+  candidates: DuplicateCandidate[]
+): ThemeCheckReport {
+  const loose = parseLoose(theme.css_content);
+  const unknownKeys = loose ? findUnknownKeys(loose) : [];
+  const validation = parseThemeContent(theme.css_content);
+
+  // Unknown keys get their own section, so don't list them twice
+  const schemaErrors = validation.ok
+    ? []
+    : validation.errors.filter((error) => !unknownKeys.includes(error.field));
+
+  return {
+    checked_at: new Date().toISOString(),
+    schema_errors: schemaErrors,
+    unknown_keys: unknownKeys,
+    contrast: loose
+      ? checkThemeContrast(
+          stringValues(loose.colors),
+          typeof loose.mode === "string" ? loose.mode : undefined
+        )
+      : [],
+    duplicates: findDuplicates(theme, candidates),
+    profanity: findProfanity(`${theme.name} ${theme.description ?? ""}`),
+  };
+}
+
+/** Number of findings a moderator should look at. */
+export function countReportIssues(report: ThemeCheckReport): number {
+  return (
+    report.schema_errors.length +
+    report.unknown_keys.length +
+    report.contrast.filter((result) => result.level === "Fail").length +
+    report.duplicates.length +
+    report.profanity.length
+  );
+}
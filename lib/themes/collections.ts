@@ -0,0 +1,32 @@
+import type { ThemeFieldError } from "./schema";
+import type { CollectionInput } from "./types";
+
+export const MAX_COLLECTION_NAME_LENGTH = 60;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+export const MAX_COLLECTION_THEMES = 100;
+
+/** Validates collection details, returning the values to store. */
+export function normalizeCollectionInput(input: CollectionInput, errors: ThemeFieldError[]) {
+  const name = input.name?.trim() ?? "";
+  if (!name || name.length > MAX_COLLECTION_NAME_LENGTH) {
+    errors.push({
+      field: "name",
+      message: `Collection name must be 1-${MAX_COLLECTION_NAME_LENGTH} characters.`,
+    });
+  }
+
+  const description = input.description?.trim() || null;
+  if (description && description.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+    errors.push({
+      field: "description",
+      message: `Description must be at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters.`,
+    });
+  }
+
+  return { name, description, is_public: !!input.is_public };
+}
+
+export function getCollectionFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "collection"}.zip`;
+}
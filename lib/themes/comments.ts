@@ -0,0 +1,52 @@
+import type { ThemeComment } from "./types";
+
+export const MAX_COMMENT_LENGTH = 2000;
+// Deeper replies are still allowed but render at this indent level
+export const MAX_COMMENT_INDENT = 4;
+
+export interface CommentNode extends ThemeComment {
+  replies: CommentNode[];
+}
+
+/** Validates a comment body, returning the trimmed text or an error message. */
+export function validateCommentBody(body: string): { body: string } | { error: string } {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return { error: "Comment can't be empty." };
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comment must be at most ${MAX_COMMENT_LENGTH} characters.` };
+  }
+  return { body: trimmed };
+}
+
+/**
+ * Nests comments under their parents, oldest first. Deleted comments are kept
+ * as placeholders only while they still have visible replies.
+ */
+export function buildCommentTree(comments: ThemeComment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: CommentNode[] = [];
+  const sorted = Array.from(nodes.values()).sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  for (const node of sorted) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const prune = (list: CommentNode[]): CommentNode[] =>
+    list
+      .map((node) => ({ ...node, replies: prune(node.replies) }))
+      .filter((node) => !node.deleted_at || node.replies.length > 0);
+
+  return prune(roots);
+}
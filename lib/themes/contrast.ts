@@ -0,0 +1,183 @@
+import { parseThemeContent, type ThemeColorKey } from "./schema";
+import { DEFAULT_THEME_COLORS, withThemeDefaults } from "./variables";
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export type ContrastLevel = "AAA" | "AA" | "AA Large" | "Fail";
+
+export interface ContrastPair {
+  foreground: ThemeColorKey;
+  background: ThemeColorKey;
+  label: string;
+}
+
+export interface ContrastResult extends ContrastPair {
+  ratio: number;
+  level: ContrastLevel;
+}
+
+// Text/background pairs that carry readable text in the browser UI
+export const THEME_CONTRAST_PAIRS: readonly ContrastPair[] = [
+  { foreground: "text1", background: "bg", label: "Primary text" },
+  { foreground: "text2", background: "bg", label: "Secondary text" },
+  { foreground: "tabText", background: "tabBg", label: "Tabs" },
+  { foreground: "tabTextActive", background: "tabBgActive", label: "Active tab" },
+  { foreground: "urlBarText", background: "urlBarBg", label: "URL bar" },
+  { foreground: "surfaceText", background: "surfaceBg", label: "Surfaces" },
+  { foreground: "navButtonText", background: "navButtonBg", label: "Navigation buttons" },
+  { foreground: "downloadButtonText", background: "downloadButtonBg", label: "Download buttons" },
+  { foreground: "fieldText", background: "fieldBg", label: "Input fields" },
+  { foreground: "settingsCardText", background: "settingsCardBg", label: "Settings cards" },
+  { foreground: "contextMenuText", background: "contextMenuBg", label: "Context menu" },
+  { foreground: "accentText", background: "accentPrimary", label: "Accent" },
+];
+
+// WCAG AA for normal text; themes meeting it on every pair count as accessible
+export const ACCESSIBLE_CONTRAST_RATIO = 4.5;
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function parseChannel(value: string, max: number) {
+  return value.endsWith("%") ? (parseFloat(value) / 100) * max : parseFloat(value);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+/** Parses the color formats accepted by the theme schema. */
+export function parseCssColor(value: string): Rgba | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === "transparent") {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    const channels = digits.match(/../g)!.map((pair) => parseInt(pair, 16));
+    return {
+      r: channels[0],
+      g: channels[1],
+      b: channels[2],
+      a: channels.length === 4 ? channels[3] / 255 : 1,
+    };
+  }
+
+  const functional = color.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (!functional) return null;
+
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  const alpha = parts[3] !== undefined ? clamp(parseChannel(parts[3], 1), 0, 1) : 1;
+
+  if (functional[1].startsWith("rgb")) {
+    const [r, g, b] = parts.slice(0, 3).map((part) => clamp(parseChannel(part, 255), 0, 255));
+    if ([r, g, b, alpha].some(Number.isNaN)) return null;
+    return { r, g, b, a: alpha };
+  }
+
+  const hue = parseFloat(parts[0]);
+  const saturation = clamp(parseFloat(parts[1]) / 100, 0, 1);
+  const lightness = clamp(parseFloat(parts[2]) / 100, 0, 1);
+  if ([hue, saturation, lightness, alpha].some(Number.isNaN)) return null;
+
+  const [r, g, b] = hslToRgb(((hue % 360) + 360) % 360, saturation, lightness);
+  return { r, g, b, a: alpha };
+}
+
+/** Blends a translucent color onto an opaque base. */
+export function compositeOver(color: Rgba, base: Rgba): Rgba {
+  return {
+    r: color.r * color.a + base.r * (1 - color.a),
+    g: color.g * color.a + base.g * (1 - color.a),
+    b: color.b * color.a + base.b * (1 - color.a),
+    a: 1,
+  };
+}
+
+function relativeLuminance({ r, g, b }: Rgba) {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/** WCAG 2.x contrast ratio between two opaque colors, from 1 to 21. */
+export function contrastRatio(foreground: Rgba, background: Rgba): number {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+export function getContrastLevel(ratio: number): ContrastLevel {
+  if (ratio >= 7) return "AAA";
+  if (ratio >= 4.5) return "AA";
+  if (ratio >= 3) return "AA Large";
+  return "Fail";
+}
+
+/**
+ * Checks every THEME_CONTRAST_PAIRS entry. Missing colors are filled with the
+ * defaults, since that is what the browser renders. Translucent backgrounds
+ * are composited over the main background, which is itself composited over
+ * white or black depending on the mode.
+ */
+export function checkThemeContrast(
+  themeColors: Partial<Record<string, string>>,
+  mode: string = "light"
+): ContrastResult[] {
+  const colors: Partial<Record<string, string>> = { ...DEFAULT_THEME_COLORS, ...themeColors };
+  const canvas = mode === "dark" ? BLACK : WHITE;
+  const rawPage = colors.bg ? parseCssColor(colors.bg) : null;
+  const page = rawPage ? compositeOver(rawPage, canvas) : canvas;
+  const results: ContrastResult[] = [];
+
+  for (const pair of THEME_CONTRAST_PAIRS) {
+    const rawForeground = colors[pair.foreground];
+    const rawBackground = colors[pair.background];
+    if (!rawForeground || !rawBackground) continue;
+
+    const foreground = parseCssColor(rawForeground);
+    const background = parseCssColor(rawBackground);
+    if (!foreground || !background) continue;
+
+    const solidBackground = compositeOver(background, page);
+    const ratio = contrastRatio(compositeOver(foreground, solidBackground), solidBackground);
+
+    results.push({ ...pair, ratio, level: getContrastLevel(ratio) });
+  }
+
+  return results;
+}
+
+/**
+ * Lowest ratio across all pairs, stored as themes.min_contrast_ratio so the
+ * gallery can filter on it. Null when the content has no checkable pairs.
+ */
+export function getMinContrastRatio(cssContent: string): number | null {
+  const content = parseThemeContent(cssContent);
+  if (!content.ok) return null;
+
+  const { colors, mode } = withThemeDefaults(content.data);
+  const results = checkThemeContrast(colors, mode);
+  if (results.length === 0) return null;
+
+  return Math.floor(Math.min(...results.map((result) => result.ratio)) * 100) / 100;
+}
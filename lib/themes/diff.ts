@@ -0,0 +1,71 @@
+export type ThemeDiffKind = "added" | "removed" | "changed";
+
+export interface ThemeDiffEntry {
+  key: string;
+  kind: ThemeDiffKind;
+  from?: string;
+  to?: string;
+}
+
+export interface ThemeDiff {
+  mode: { from?: string; to?: string } | null;
+  colors: ThemeDiffEntry[];
+  fonts: ThemeDiffEntry[];
+}
+
+interface LooseThemeData {
+  mode?: string;
+  fonts?: Record<string, string> | null;
+  colors?: Record<string, string> | null;
+}
+
+// Older versions predate schema validation, so parse without rejecting them
+function parseLoose(cssContent: string): LooseThemeData {
+  try {
+    const parsed = JSON.parse(cssContent);
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function diffRecords(
+  fromRecord: Record<string, string> | null | undefined,
+  toRecord: Record<string, string> | null | undefined
+): ThemeDiffEntry[] {
+  const from = fromRecord ?? {};
+  const to = toRecord ?? {};
+  const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+  const entries: ThemeDiffEntry[] = [];
+
+  for (const key of keys) {
+    const before = from[key];
+    const after = to[key];
+
+    if (before === undefined && after !== undefined) {
+      entries.push({ key, kind: "added", to: String(after) });
+    } else if (before !== undefined && after === undefined) {
+      entries.push({ key, kind: "removed", from: String(before) });
+    } else if (String(before) !== String(after)) {
+      entries.push({ key, kind: "changed", from: String(before), to: String(after) });
+    }
+  }
+
+  return entries;
+}
+
+/** Key-by-key comparison of two css_content payloads. */
+export function diffThemeContent(fromContent: string, toContent: string): ThemeDiff {
+  const from = parseLoose(fromContent);
+  const to = parseLoose(toContent);
+
+  return {
+    mode: from.mode !== to.mode ? { from: from.mode, to: to.mode } : null,
+    colors: diffRecords(from.colors, to.colors),
+    fonts: diffRecords(from.fonts, to.fonts),
+  };
+}
+
+export function isEmptyDiff(diff: ThemeDiff): boolean {
+  return !diff.mode && diff.colors.length === 0 && diff.fonts.length === 0;
+}
@@ -0,0 +1,74 @@
+import { THEME_MODES, type ThemeMode } from "./schema";
+import { normalizeHexColor } from "./palette";
+
+export const TAG_MATCH_MODES = ["all", "any"] as const;
+export type TagMatchMode = (typeof TAG_MATCH_MODES)[number];
+
+// Each tag adds a join to the gallery query, so keep combinations small
+export const MAX_FILTER_TAGS = 5;
+
+const TAG_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Gallery filters as they appear in the URL:
+ * ?tag=dark,minimal&match=any&exclude=neon&mode=dark&author=jane&color=7c3aed&accessible=true
+ */
+export interface ThemeFilterState {
+  tags: string[];
+  tagMatch: TagMatchMode;
+  excludeTags: string[];
+  mode?: ThemeMode;
+  // Profile username
+  author?: string;
+  // "#rrggbb"
+  color?: string;
+  // Every text color meets WCAG AA
+  accessibleOnly: boolean;
+}
+
+type QueryParams = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function readParam(params: QueryParams, key: string): string {
+  const value = params instanceof URLSearchParams ? params.get(key) : params[key];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+// Comma-separated slugs; invalid ones are dropped rather than failing the page
+function readSlugList(params: QueryParams, key: string): string[] {
+  const slugs = readParam(params, key)
+    .toLowerCase()
+    .split(",")
+    .map((slug) => slug.trim())
+    .filter((slug) => TAG_SLUG_PATTERN.test(slug));
+  return Array.from(new Set(slugs)).slice(0, MAX_FILTER_TAGS);
+}
+
+export function parseThemeFilters(params: QueryParams): ThemeFilterState {
+  const excludeTags = readSlugList(params, "exclude");
+  const mode = readParam(params, "mode");
+  const author = readParam(params, "author");
+
+  return {
+    // Excluding a tag wins over including it
+    tags: readSlugList(params, "tag").filter((slug) => !excludeTags.includes(slug)),
+    tagMatch: readParam(params, "match") === "any" ? "any" : "all",
+    excludeTags,
+    mode: (THEME_MODES as readonly string[]).includes(mode) ? (mode as ThemeMode) : undefined,
+    author: author || undefined,
+    color: normalizeHexColor(readParam(params, "color")) ?? undefined,
+    accessibleOnly: readParam(params, "accessible") === "true",
+  };
+}
+
+/** Serializes filters in a fixed order, so equal filters give equal URLs. */
+export function toFilterQuery(filters: ThemeFilterState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.tags.length > 0) params.set("tag", filters.tags.join(","));
+  if (filters.tags.length > 1 && filters.tagMatch === "any") params.set("match", "any");
+  if (filters.excludeTags.length > 0) params.set("exclude", filters.excludeTags.join(","));
+  if (filters.mode) params.set("mode", filters.mode);
+  if (filters.author) params.set("author", filters.author);
+  if (filters.color) params.set("color", filters.color.slice(1));
+  if (filters.accessibleOnly) params.set("accessible", "true");
+  return params;
+}
@@ -0,0 +1,39 @@
+export const REJECTION_REASONS = [
+  { id: "broken", label: "Theme file is broken or incomplete" },
+  { id: "unreadable", label: "Text is hard to read (low contrast)" },
+  { id: "duplicate", label: "Duplicate of an existing theme" },
+  { id: "stolen", label: "Copied from another author without credit" },
+  { id: "inappropriate", label: "Inappropriate name, description or content" },
+  { id: "other", label: "Other" },
+] as const;
+
+export type RejectionReasonId = (typeof REJECTION_REASONS)[number]["id"];
+
+export interface RejectionInput {
+  reasonId: RejectionReasonId;
+  note?: string;
+}
+
+export const MAX_REJECTION_NOTE_LENGTH = 500;
+
+/**
+ * Turns a preset plus optional note into the text stored on the theme and
+ * shown to its author. Throws when the input is not a valid reason.
+ */
+export function formatRejectionReason({ reasonId, note }: RejectionInput): string {
+  const preset = REJECTION_REASONS.find((reason) => reason.id === reasonId);
+  const trimmedNote = note?.trim() ?? "";
+
+  if (!preset) {
+    throw new Error("Unknown rejection reason");
+  }
+  if (reasonId === "other" && !trimmedNote) {
+    throw new Error("Please describe why the theme was rejected");
+  }
+  if (trimmedNote.length > MAX_REJECTION_NOTE_LENGTH) {
+    throw new Error(`Rejection note must be at most ${MAX_REJECTION_NOTE_LENGTH} characters`);
+  }
+
+  if (reasonId === "other") return trimmedNote;
+  return trimmedNote ? `${preset.label}: ${trimmedNote}` : preset.label;
+}
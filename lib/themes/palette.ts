@@ -0,0 +1,132 @@
+import { compositeOver, parseCssColor, type Rgba } from "./contrast";
+import { parseThemeContent, type ThemeColorKey } from "./schema";
+import { withThemeDefaults } from "./variables";
+
+export interface PaletteColor {
+  key: ThemeColorKey;
+  // Opaque "#rrggbb", after compositing translucent colors onto the page
+  color: string;
+}
+
+// Colors shown in the strip on each theme card
+export const PALETTE_KEYS: readonly ThemeColorKey[] = [
+  "bg",
+  "surfaceBg",
+  "tabBgActive",
+  "text1",
+  "accentPrimary",
+];
+
+// Colors a color search compares against: what a theme visibly looks like
+export const COLOR_SEARCH_KEYS: readonly ThemeColorKey[] = [
+  "bg",
+  "tabBgActive",
+  "text1",
+  "accentPrimary",
+];
+
+// CIE76 ΔE; around 2 is barely noticeable, so this allows "roughly that color"
+export const COLOR_MATCH_DISTANCE = 20;
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+
+// D65 reference white
+const REFERENCE_WHITE = { x: 0.95047, y: 1, z: 1.08883 };
+
+interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/** Accepts "#rgb", "#rrggbb" or either without the "#"; returns "#rrggbb". */
+export function normalizeHexColor(input: string): string | null {
+  const hex = input.trim().toLowerCase().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.replace(/./g, "$&$&")}`;
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`;
+  return null;
+}
+
+function toHex({ r, g, b }: Rgba) {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
+
+function rgbToLab({ r, g, b }: Rgba): Lab {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / REFERENCE_WHITE.x;
+  const y = (lr * 0.2126 + lg * 0.7152 + lb * 0.0722) / REFERENCE_WHITE.y;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / REFERENCE_WHITE.z;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (t * 24389) / 27 / 116 + 16 / 116);
+  const [fx, fy, fz] = [x, y, z].map(f);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+// Two decimals is far below a visible difference and keeps stored values stable
+function roundLab({ l, a, b }: Lab): number[] {
+  return [l, a, b].map((value) => Math.round(value * 100) / 100);
+}
+
+/**
+ * Perceptual distance (CIE76 ΔE) between two CSS colors as they show on the
+ * mode's canvas, or null when either isn't a color.
+ */
+export function getColorDistance(first: string, second: string, mode?: string): number | null {
+  const a = parseCssColor(first);
+  const b = parseCssColor(second);
+  if (!a || !b) return null;
+
+  const canvas = mode === "dark" ? BLACK : WHITE;
+  const labA = rgbToLab(compositeOver(a, canvas));
+  const labB = rgbToLab(compositeOver(b, canvas));
+  return Math.hypot(labA.l - labB.l, labA.a - labB.a, labA.b - labB.b);
+}
+
+function getSolidColors(cssContent: string, keys: readonly ThemeColorKey[]) {
+  const content = parseThemeContent(cssContent);
+  if (!content.ok) return [];
+
+  // Unset colors show up as the defaults, so they count as those
+  const { colors, mode } = withThemeDefaults(content.data);
+  const canvas = mode === "dark" ? BLACK : WHITE;
+  const rawPage = colors.bg ? parseCssColor(colors.bg) : null;
+  const page = rawPage ? compositeOver(rawPage, canvas) : canvas;
+
+  const solid: { key: ThemeColorKey; rgba: Rgba }[] = [];
+  for (const key of keys) {
+    const value = colors[key] ? parseCssColor(colors[key]) : null;
+    if (value) solid.push({ key, rgba: compositeOver(value, key === "bg" ? canvas : page) });
+  }
+  return solid;
+}
+
+/** The theme's main colors as they appear on screen, for the card strip. */
+export function getThemePalette(cssContent: string): PaletteColor[] {
+  return getSolidColors(cssContent, PALETTE_KEYS).map(({ key, rgba }) => ({
+    key,
+    color: toHex(rgba),
+  }));
+}
+
+/** CIE Lab of a hex color, the color search target. */
+export function hexToLab(hexColor: string): number[] | null {
+  const rgba = parseCssColor(hexColor);
+  return rgba ? roundLab(rgbToLab(rgba)) : null;
+}
+
+/**
+ * Lab values of the searchable colors as they appear on screen, flattened to
+ * [l, a, b, l, a, b, ...]. Stored as themes.search_colors so color search can
+ * compare distances in the database.
+ */
+export function getSearchColors(cssContent: string): number[] {
+  return getSolidColors(cssContent, COLOR_SEARCH_KEYS).flatMap(({ rgba }) =>
+    roundLab(rgbToLab(rgba))
+  );
+}
@@ -1,53 +1,212 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createClient as createServerClient } from "@/lib/supabase/server";
-import type { Theme, Profile, Tag, ThemeInput, ProfileInput } from "./types";
+import type {
+  Theme,
+  Profile,
+  Tag,
+  ThemeInput,
+  ProfileInput,
+  ThemeCollection,
+  ThemeComment,
+  ThemeReview,
+  ThemeRevision,
+  ThemeSortOption,
+  ThemeVersion,
+} from "./types";
+import { DUPLICATE_COLOR_DISTANCE, runThemeChecks, type DuplicateCandidate } from "./checks";
+import { ACCESSIBLE_CONTRAST_RATIO } from "./contrast";
+import type { ReportTargetType } from "./reports";
+import { MAX_SEARCH_LENGTH, tokenize } from "./search";
+import { COLOR_MATCH_DISTANCE, getSearchColors, hexToLab } from "./palette";
+import type { ThemeFilterState } from "./filters";
+
+// Fetch profiles separately to avoid FK relationship issues
+async function attachProfiles(supabase: SupabaseClient, themes: Theme[]) {
+  const userIds = themes.map(t => t.user_id).filter(Boolean);
+  if (userIds.length === 0) return;
+
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("*")
+    .in("id", userIds);
+
+  const profileMap = new Map(profiles?.map((p) => [p.id, p as Profile]) || []);
+  for (const theme of themes) {
+    if (theme.user_id) theme.profiles = profileMap.get(theme.user_id);
+  }
+}
+
+/**
+ * Text and color search run in the database (search_themes), which applies
+ * the filters, ranks and pages; this loads the rows for that page in rank
+ * order.
+ */
+async function searchThemeRows(
+  supabase: SupabaseClient,
+  params: {
+    search?: string;
+    colorLab?: number[];
+    requiredTags: string[];
+    anyTags: string[];
+    excludeTags: string[];
+    authorId?: string;
+    accessibleOnly: boolean;
+    sortBy: ThemeSortOption;
+    limit: number;
+    offset: number;
+  }
+): Promise<Theme[]> {
+  const { data: ranked, error } = await supabase.rpc("search_themes", {
+    p_query: params.search ?? null,
+    p_color_lab: params.colorLab ?? null,
+    p_max_color_distance: params.colorLab ? COLOR_MATCH_DISTANCE : null,
+    p_required_tags: params.requiredTags,
+    p_any_tags: params.anyTags,
+    p_exclude_tags: params.excludeTags,
+    p_author_id: params.authorId ?? null,
+    p_min_contrast: params.accessibleOnly ? ACCESSIBLE_CONTRAST_RATIO : null,
+    p_sort: params.sortBy,
+    p_limit: params.limit,
+    p_offset: params.offset,
+  });
+
+  if (error) {
+    console.error("Error searching themes:", error);
+    return [];
+  }
+
+  const ids = ((ranked || []) as { id: string }[]).map(({ id }) => id);
+  if (ids.length === 0) return [];
+
+  const { data, error: rowsError } = await supabase
+    .from("themes")
+    .select(
+      `
+      *,
+      theme_tags (
+        tags (id, name, slug)
+      )
+    `
+    )
+    .in("id", ids);
+
+  if (rowsError) {
+    console.error("Error fetching themes:", rowsError);
+    return [];
+  }
+
+  const position = new Map(ids.map((id, index) => [id, index]));
+  const themes = ((data || []) as Theme[]).sort(
+    (a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0)
+  );
+  await attachProfiles(supabase, themes);
+  return themes;
+}
 
 export async function getThemes({
   search,
-  tag,
+  tags = [],
+  tagMatch = "all",
+  excludeTags = [],
+  mode,
+  author,
+  color,
   sortBy = "newest",
+  accessibleOnly = false,
   limit = 50,
   offset = 0,
 }: {
   search?: string;
-  tag?: string;
-  sortBy?: "newest" | "popular" | "name";
+  sortBy?: ThemeSortOption;
   limit?: number;
   offset?: number;
-}) {
+} & Partial<ThemeFilterState>) {
   const supabase = await createServerClient();
 
-  // Use inner join when filtering by tag, left join otherwise
-  const selectQuery = tag
-    ? `
-      *,
-      theme_tags!inner (
-        tags!inner (id, name, slug)
-      )
+  let authorId: string | undefined;
+  if (author) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("username", author)
+      .maybeSingle();
+    if (!profile) return [];
+    authorId = profile.id;
+  }
+
+  // The mode is stored as an automatic tag, so it's one more required tag
+  const requiredTags = [...(mode ? [mode] : []), ...(tagMatch === "all" ? tags : [])];
+  const anyTags = tagMatch === "any" ? tags : [];
+
+  const searchQuery = search?.slice(0, MAX_SEARCH_LENGTH) ?? "";
+  const hasSearch = tokenize(searchQuery).length > 0;
+  // A query of only punctuation matches nothing rather than everything
+  if (searchQuery.trim() && !hasSearch) return [];
+  const colorLab = color ? hexToLab(color) ?? undefined : undefined;
+  if (hasSearch || colorLab) {
+    return searchThemeRows(supabase, {
+      search: hasSearch ? searchQuery : undefined,
+      colorLab,
+      requiredTags,
+      anyTags,
+      excludeTags,
+      authorId,
+      accessibleOnly,
+      sortBy,
+      limit,
+      offset,
+    });
+  }
+
+  // theme_tags holds every tag for display; each tag filter joins it again
+  // under its own alias so the filters don't narrow what cards show
+  const embeds = [
     `
-    : `
-      *,
       theme_tags (
         tags (id, name, slug)
       )
-    `;
+    `,
+    ...requiredTags.map((_, i) => `required_${i}:theme_tags!inner (tags!inner (slug))`),
+    ...(anyTags.length > 0 ? ["any_tag:theme_tags!inner (tags!inner (slug))"] : []),
+    // Left join plus "is null" keeps only themes with none of these tags
+    ...(excludeTags.length > 0 ? ["excluded_tag:theme_tags (tags!inner (slug))"] : []),
+  ];
 
   let query = supabase
     .from("themes")
-    .select(selectQuery)
+    .select(["*", ...embeds].join(", "))
     .eq("status", "approved");
 
-  if (search) {
-    query = query.ilike("name", `%${search}%`);
+  requiredTags.forEach((slug, i) => {
+    query = query.eq(`required_${i}.tags.slug`, slug);
+  });
+
+  if (anyTags.length > 0) {
+    query = query.in("any_tag.tags.slug", anyTags);
   }
 
-  if (tag) {
-    query = query.eq("theme_tags.tags.slug", tag);
+  if (excludeTags.length > 0) {
+    query = query.in("excluded_tag.tags.slug", excludeTags).is("excluded_tag", null);
+  }
+
+  if (authorId) {
+    query = query.eq("user_id", authorId);
+  }
+
+  if (accessibleOnly) {
+    query = query.gte("min_contrast_ratio", ACCESSIBLE_CONTRAST_RATIO);
   }
 
   if (sortBy === "newest") {
     query = query.order("created_at", { ascending: false });
   } else if (sortBy === "popular") {
     query = query.order("download_count", { ascending: false });
+  } else if (sortBy === "top_rated") {
+    query = query
+      .order("rating_average", { ascending: false, nullsFirst: false })
+      .order("rating_count", { ascending: false });
+  } else if (sortBy === "most_liked") {
+    query = query.order("like_count", { ascending: false });
   } else if (sortBy === "name") {
     query = query.order("name", { ascending: true });
   }
@@ -61,24 +220,9 @@ export async function getThemes({
     return [];
   }
 
-  // Fetch profiles separately to avoid FK relationship issues
-  const themes = (data || []) as Theme[];
-  const userIds = themes.map(t => t.user_id).filter(Boolean);
-  
-  if (userIds.length > 0) {
-    const { data: profiles } = await supabase
-      .from("profiles")
-      .select("*")
-      .in("id", userIds);
-    
-    const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
-    
-    for (const theme of themes) {
-      if (theme.user_id) {
-        (theme as Theme & { profiles?: object }).profiles = profileMap.get(theme.user_id);
-      }
-    }
-  }
+  // The select is built at runtime, so its row type can't be inferred
+  const themes = (data || []) as unknown as Theme[];
+  await attachProfiles(supabase, themes);
 
   return themes;
 }
@@ -121,6 +265,32 @@ export async function getThemeById(id: string) {
   return theme;
 }
 
+// Unlike getThemeById this ignores status, so owners can edit themes that are
+// still under review or were rejected
+export async function getOwnedThemeById(id: string, userId: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("themes")
+    .select(
+      `
+      *,
+      theme_tags (
+        tags (id, name, slug)
+      )
+    `
+    )
+    .eq("id", id)
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    return null;
+  }
+
+  return data as Theme;
+}
+
 export async function getThemeVersions(themeId: string) {
   const supabase = await createServerClient();
 
@@ -135,7 +305,317 @@ export async function getThemeVersions(themeId: string) {
     return [];
   }
 
-  return data;
+  return data as ThemeVersion[];
+}
+
+export async function getPendingRevision(themeId: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("theme_revisions")
+    .select("*")
+    .eq("theme_id", themeId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error("Error fetching pending revision:", error);
+    return null;
+  }
+
+  return (data?.[0] as ThemeRevision | undefined) ?? null;
+}
+
+// Latest revision in any status, so owners can see why an update was rejected
+export async function getLatestRevision(themeId: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("theme_revisions")
+    .select("*")
+    .eq("theme_id", themeId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error("Error fetching latest revision:", error);
+    return null;
+  }
+
+  return (data?.[0] as ThemeRevision | undefined) ?? null;
+}
+
+export async function getThemeRemixes(themeId: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("themes")
+    .select("id, name, author_name, created_at")
+    .eq("forked_from", themeId)
+    .eq("status", "approved")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching remixes:", error);
+    return [];
+  }
+
+  return data as Pick<Theme, "id" | "name" | "author_name" | "created_at">[];
+}
+
+export async function getThemeReviews(themeId: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("theme_reviews")
+    .select("*")
+    .eq("theme_id", themeId)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching reviews:", error);
+    return [];
+  }
+
+  // Fetch profiles separately to avoid FK relationship issues
+  const reviews = (data || []) as ThemeReview[];
+  const userIds = Array.from(new Set(reviews.map((review) => review.user_id)));
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase.from("profiles").select("*").in("id", userIds);
+
+    const profileMap = new Map(profiles?.map((p) => [p.id, p as Profile]) || []);
+
+    for (const review of reviews) {
+      review.profiles = profileMap.get(review.user_id);
+    }
+  }
+
+  return reviews;
+}
+
+export async function getThemeComments(themeId: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("theme_comments")
+    .select("*")
+    .eq("theme_id", themeId)
+    .order("created_at");
+
+  if (error) {
+    console.error("Error fetching comments:", error);
+    return [];
+  }
+
+  // Fetch profiles separately to avoid FK relationship issues
+  const comments = (data || []) as ThemeComment[];
+  const userIds = Array.from(new Set(comments.map((comment) => comment.user_id)));
+
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase.from("profiles").select("*").in("id", userIds);
+
+    const profileMap = new Map(profiles?.map((p) => [p.id, p as Profile]) || []);
+
+    for (const comment of comments) {
+      comment.profiles = profileMap.get(comment.user_id);
+    }
+  }
+
+  return comments;
+}
+
+/** Open report counts per target, for showing moderators what has been flagged. */
+export async function getOpenReportCounts(targetType: ReportTargetType, targetIds: string[]) {
+  const counts: Record<string, number> = {};
+  if (targetIds.length === 0) return counts;
+
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase
+    .from("reports")
+    .select("target_id")
+    .eq("target_type", targetType)
+    .eq("status", "open")
+    .in("target_id", targetIds);
+
+  if (error) {
+    console.error("Error fetching report counts:", error);
+    return counts;
+  }
+
+  for (const row of data || []) {
+    counts[row.target_id] = (counts[row.target_id] ?? 0) + 1;
+  }
+
+  return counts;
+}
+
+/** Which of the given themes the user has liked; all of them when themeIds is omitted. */
+export async function getLikedThemeIds(userId: string, themeIds?: string[]) {
+  if (themeIds && themeIds.length === 0) return [];
+
+  const supabase = await createServerClient();
+
+  let query = supabase.from("theme_likes").select("theme_id").eq("user_id", userId);
+  if (themeIds) {
+    query = query.in("theme_id", themeIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching likes:", error);
+    return [];
+  }
+
+  return (data || []).map((row) => row.theme_id as string);
+}
+
+export async function getLikedThemes(userId: string) {
+  const supabase = await createServerClient();
+
+  const { data: likes, error: likesError } = await supabase
+    .from("theme_likes")
+    .select("theme_id")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (likesError) {
+    console.error("Error fetching likes:", likesError);
+    return [];
+  }
+
+  const themeIds = (likes || []).map((like) => like.theme_id as string);
+  if (themeIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("themes")
+    .select(
+      `
+      *,
+      theme_tags (
+        tags (id, name, slug)
+      )
+    `
+    )
+    .in("id", themeIds)
+    .eq("status", "approved");
+
+  if (error) {
+    console.error("Error fetching liked themes:", error);
+    return [];
+  }
+
+  const themes = (data || []) as Theme[];
+
+  // Fetch profiles separately to avoid FK relationship issues
+  const userIds = Array.from(new Set(themes.map((t) => t.user_id).filter(Boolean)));
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase.from("profiles").select("*").in("id", userIds);
+    const profileMap = new Map(profiles?.map((p) => [p.id, p as Profile]) || []);
+    for (const theme of themes) {
+      if (theme.user_id) theme.profiles = profileMap.get(theme.user_id);
+    }
+  }
+
+  // Most recently liked first
+  return themes.sort((a, b) => themeIds.indexOf(a.id) - themeIds.indexOf(b.id));
+}
+
+/**
+ * A collection with its approved themes in order. Private collections are
+ * returned to their owner only.
+ */
+export async function getCollectionById(id: string, viewerId?: string) {
+  const supabase = await createServerClient();
+
+  const { data, error } = await supabase.from("collections").select("*").eq("id", id).single();
+
+  if (error || !data) {
+    if (error) console.error("Error fetching collection:", error);
+    return null;
+  }
+
+  const collection = data as ThemeCollection;
+  if (!collection.is_public && collection.user_id !== viewerId) {
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("collection_themes")
+    .select("theme_id")
+    .eq("collection_id", id)
+    .order("position");
+
+  if (itemsError) {
+    console.error("Error fetching collection themes:", itemsError);
+  }
+
+  const themeIds = (items || []).map((item) => item.theme_id as string);
+  let themes: Theme[] = [];
+
+  if (themeIds.length > 0) {
+    const { data: themeRows } = await supabase
+      .from("themes")
+      .select(
+        `
+        *,
+        theme_tags (
+          tags (id, name, slug)
+        )
+      `
+      )
+      .in("id", themeIds)
+      .eq("status", "approved");
+
+    themes = ((themeRows || []) as Theme[]).sort(
+      (a, b) => themeIds.indexOf(a.id) - themeIds.indexOf(b.id)
+    );
+  }
+
+  // Fetch profiles separately to avoid FK relationship issues
+  const userIds = Array.from(
+    new Set([collection.user_id, ...themes.map((t) => t.user_id).filter(Boolean)])
+  );
+  const { data: profiles } = await supabase.from("profiles").select("*").in("id", userIds);
+  const profileMap = new Map(profiles?.map((p) => [p.id, p as Profile]) || []);
+
+  collection.profiles = profileMap.get(collection.user_id);
+  for (const theme of themes) {
+    if (theme.user_id) theme.profiles = profileMap.get(theme.user_id);
+  }
+  collection.themes = themes;
+
+  return collection;
+}
+
+/** The user's collections with theme counts, newest first. Public only unless includePrivate. */
+export async function getUserCollections(userId: string, includePrivate = false) {
+  const supabase = await createServerClient();
+
+  let query = supabase
+    .from("collections")
+    .select("*, collection_themes (count)")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+
+  if (!includePrivate) {
+    query = query.eq("is_public", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching collections:", error);
+    return [];
+  }
+
+  return (data || []).map(({ collection_themes, ...collection }) => ({
+    ...(collection as ThemeCollection),
+    theme_count: (collection_themes as { count: number }[])?.[0]?.count ?? 0,
+  }));
 }
 
 export async function getTags() {
@@ -210,7 +690,7 @@ export async function getAllProfileThemes(userId: string) {
     `
     )
     .eq("user_id", userId)
-    .in("status", ["approved", "under_review"])
+    .in("status", ["approved", "under_review", "rejected"])
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -221,6 +701,79 @@ export async function getAllProfileThemes(userId: string) {
   return data as Theme[];
 }
 
+/**
+ * Approved themes that may duplicate the given one: main colors that look
+ * nearly the same (find_similar_themes, on the stored Lab values) or the same
+ * name. Only these few are compared color by color in runThemeChecks.
+ */
+export async function getDuplicateCandidates(theme: {
+  id: string;
+  name: string;
+  css_content: string;
+}) {
+  const supabase = await createServerClient();
+  const colors = getSearchColors(theme.css_content);
+  const name = theme.name.trim().replace(/[\\%_]/g, "\\$&");
+
+  const [byColor, byName] = await Promise.all([
+    colors.length > 0
+      ? supabase.rpc("find_similar_themes", {
+          p_colors: colors,
+          p_exclude_theme_id: theme.id,
+          p_max_distance: DUPLICATE_COLOR_DISTANCE,
+        })
+      : null,
+    name
+      ? supabase
+          .from("themes")
+          .select("id, name, css_content")
+          .eq("status", "approved")
+          .neq("id", theme.id)
+          .ilike("name", name)
+      : null,
+  ]);
+
+  if (byColor?.error || byName?.error) {
+    console.error("Error fetching duplicate candidates:", byColor?.error ?? byName?.error);
+    return [];
+  }
+
+  const candidates = new Map<string, DuplicateCandidate>();
+  for (const candidate of [
+    ...((byColor?.data || []) as DuplicateCandidate[]),
+    ...(byName?.data || []),
+  ]) {
+    candidates.set(candidate.id, candidate);
+  }
+  return Array.from(candidates.values());
+}
+
+export async function refreshThemeCheckReport(themeId: string) {
+  const supabase = await createServerClient();
+
+  const { data: theme, error } = await supabase
+    .from("themes")
+    .select("id, name, description, css_content")
+    .eq("id", themeId)
+    .single();
+
+  if (error || !theme) {
+    console.error("Error fetching theme for checks:", error);
+    return;
+  }
+
+  const report = runThemeChecks(theme, await getDuplicateCandidates(theme));
+
+  const { error: updateError } = await supabase
+    .from("themes")
+    .update({ review_report: report })
+    .eq("id", themeId);
+
+  if (updateError) {
+    console.error("Error saving check report:", updateError);
+  }
+}
+
 export async function incrementDownloadCount(themeId: string) {
   const supabase = await createServerClient();
 
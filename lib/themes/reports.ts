@@ -0,0 +1,61 @@
+export const REPORT_TARGET_TYPES = ["theme", "user", "comment"] as const;
+
+export type ReportTargetType = (typeof REPORT_TARGET_TYPES)[number];
+
+export const REPORT_REASONS = [
+  { id: "stolen", label: "Copied from another author without credit", targets: ["theme"] },
+  { id: "broken", label: "Broken or doesn't work", targets: ["theme"] },
+  { id: "impersonation", label: "Pretending to be someone else", targets: ["user"] },
+  { id: "spam", label: "Spam or advertising", targets: ["theme", "user", "comment"] },
+  { id: "harassment", label: "Harassment or personal attacks", targets: ["user", "comment"] },
+  {
+    id: "offensive",
+    label: "Offensive or inappropriate content",
+    targets: ["theme", "user", "comment"],
+  },
+  { id: "other", label: "Other", targets: ["theme", "user", "comment"] },
+] as const;
+
+export type ReportReasonId = (typeof REPORT_REASONS)[number]["id"];
+
+export interface ReportInput {
+  reasonId: ReportReasonId;
+  note?: string;
+}
+
+export const MAX_REPORT_NOTE_LENGTH = 500;
+
+export function isReportTargetType(value: string): value is ReportTargetType {
+  return (REPORT_TARGET_TYPES as readonly string[]).includes(value);
+}
+
+export function getReportReasons(targetType: ReportTargetType) {
+  return REPORT_REASONS.filter((reason) =>
+    (reason.targets as readonly ReportTargetType[]).includes(targetType)
+  );
+}
+
+/**
+ * Turns a preset plus optional note into the text stored on the report.
+ * Throws when the input is not a valid reason for the target.
+ */
+export function formatReportReason(
+  targetType: ReportTargetType,
+  { reasonId, note }: ReportInput
+): string {
+  const preset = getReportReasons(targetType).find((reason) => reason.id === reasonId);
+  const trimmedNote = note?.trim() ?? "";
+
+  if (!preset) {
+    throw new Error("Unknown report reason");
+  }
+  if (reasonId === "other" && !trimmedNote) {
+    throw new Error("Please describe the problem");
+  }
+  if (trimmedNote.length > MAX_REPORT_NOTE_LENGTH) {
+    throw new Error(`Report note must be at most ${MAX_REPORT_NOTE_LENGTH} characters`);
+  }
+
+  if (reasonId === "other") return trimmedNote;
+  return trimmedNote ? `${preset.label}: ${trimmedNote}` : preset.label;
+}
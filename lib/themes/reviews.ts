@@ -0,0 +1,35 @@
+import type { ThemeFieldError } from "./schema";
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_REVIEW_LENGTH = 1000;
+
+export interface ThemeReviewInput {
+  rating: number;
+  body?: string;
+}
+
+/** Validates a rating and review body, returning the values to store. */
+export function normalizeReview(input: ThemeReviewInput, errors: ThemeFieldError[]) {
+  const rating = Number(input.rating);
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    errors.push({
+      field: "rating",
+      message: `Rating must be a whole number from ${MIN_RATING} to ${MAX_RATING}.`,
+    });
+  }
+
+  const body = input.body?.trim() || null;
+  if (body && body.length > MAX_REVIEW_LENGTH) {
+    errors.push({
+      field: "body",
+      message: `Review must be at most ${MAX_REVIEW_LENGTH} characters.`,
+    });
+  }
+
+  return { rating, body };
+}
+
+export function formatRating(average: number | null | undefined): string {
+  return average ? average.toFixed(1) : "–";
+}
@@ -0,0 +1,330 @@
+// Shared theme format used by the upload, update and edit forms, the review
+// queue and the API. Keys mirror the CSS variables consumed by ThemePreview.
+
+export const THEME_MODES = ["light", "dark"] as const;
+
+export const THEME_COLOR_KEYS = [
+  "bg",
+  "tabBg",
+  "tabBgHover",
+  "tabBgActive",
+  "tabText",
+  "tabTextHover",
+  "tabTextActive",
+  "tabBorder",
+  "tabBorderHover",
+  "tabBorderActive",
+  "text1",
+  "text2",
+  "text3",
+  "urlBarBg",
+  "urlBarBgHover",
+  "urlBarBgActive",
+  "urlBarText",
+  "urlBarTextPlaceholder",
+  "urlBarBorder",
+  "urlBarBorderHover",
+  "urlBarBorderActive",
+  "surfaceBg",
+  "surfaceBgHover",
+  "surfaceBgActive",
+  "surfaceText",
+  "surfaceTextHover",
+  "surfaceTextActive",
+  "surfaceBorder",
+  "surfaceBorderHover",
+  "surfaceBorderActive",
+  "navButtonBg",
+  "navButtonBgHover",
+  "navButtonBgActive",
+  "navButtonText",
+  "navButtonTextHover",
+  "navButtonTextActive",
+  "navButtonBorder",
+  "navButtonBorderHover",
+  "navButtonBorderActive",
+  "downloadButtonBg",
+  "downloadButtonBgHover",
+  "downloadButtonBgActive",
+  "downloadButtonText",
+  "downloadButtonTextHover",
+  "downloadButtonTextActive",
+  "downloadButtonBorder",
+  "downloadButtonBorderHover",
+  "downloadButtonBorderActive",
+  "fieldBg",
+  "fieldBgHover",
+  "fieldBgActive",
+  "fieldText",
+  "fieldTextPlaceholder",
+  "fieldBorder",
+  "fieldBorderHover",
+  "fieldBorderActive",
+  "settingsCardBg",
+  "settingsCardBorder",
+  "settingsCardText",
+  "settingsCardDescription",
+  "settingsTabsBg",
+  "settingsTabsBorder",
+  "settingsRowBg",
+  "settingsRowBgHover",
+  "settingsRowBorder",
+  "settingsRowBorderHover",
+  "contextMenuBg",
+  "contextMenuBgHover",
+  "contextMenuBgActive",
+  "contextMenuText",
+  "contextMenuTextHover",
+  "contextMenuBorder",
+  "contextMenuDivider",
+  "contextMenuShadow",
+  "accentPrimary",
+  "accentPrimarySoft",
+  "accentText",
+] as const;
+
+export const THEME_FONT_KEYS = [
+  "fontPrimaryFamily",
+  "fontSecondaryFamily",
+  "fontPrimaryWeight",
+  "fontSecondaryWeight",
+] as const;
+
+// Top-level keys allowed in an uploaded theme file. Only mode, fonts and
+// colors end up in css_content; the rest is metadata for the form.
+const THEME_FILE_KEYS = ["name", "author", "version", "mode", "fonts", "colors"] as const;
+
+// Keys whose value is a CSS box-shadow rather than a single color.
+const SHADOW_COLOR_KEYS: readonly string[] = ["contextMenuShadow"];
+
+const FONT_WEIGHT_KEYS: readonly string[] = ["fontPrimaryWeight", "fontSecondaryWeight"];
+
+export type ThemeMode = (typeof THEME_MODES)[number];
+export type ThemeColorKey = (typeof THEME_COLOR_KEYS)[number];
+export type ThemeFontKey = (typeof THEME_FONT_KEYS)[number];
+
+export interface ThemeData {
+  mode: ThemeMode;
+  fonts: Partial<Record<ThemeFontKey, string>>;
+  colors: Partial<Record<ThemeColorKey, string>>;
+}
+
+export interface ThemeFile extends ThemeData {
+  name?: string;
+  author?: string;
+  version?: string;
+}
+
+export interface ThemeFieldError {
+  // Dotted path to the offending value, e.g. "colors.bg". Empty for the root.
+  field: string;
+  message: string;
+}
+
+export type ThemeValidationResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errors: ThemeFieldError[] };
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_COLOR = /^(?:rgba?|hsla?)\(\s*[-+\d.%\s,/deg]+\)$/i;
+const FONT_WEIGHT = /^(?:normal|bold|lighter|bolder|[1-9]00)$/;
+
+export function isValidColor(value: string): boolean {
+  const trimmed = value.trim();
+  return (
+    HEX_COLOR.test(trimmed) ||
+    FUNCTIONAL_COLOR.test(trimmed) ||
+    trimmed.toLowerCase() === "transparent"
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateColors(value: unknown, errors: ThemeFieldError[]) {
+  const colors: ThemeData["colors"] = {};
+
+  if (value === undefined) return colors;
+  if (!isPlainObject(value)) {
+    errors.push({ field: "colors", message: "Colors must be an object of key/value pairs." });
+    return colors;
+  }
+
+  const known: readonly string[] = THEME_COLOR_KEYS;
+  for (const [key, raw] of Object.entries(value)) {
+    const field = `colors.${key}`;
+
+    if (!known.includes(key)) {
+      errors.push({ field, message: `Unknown color key "${key}".` });
+      continue;
+    }
+    if (typeof raw !== "string") {
+      errors.push({ field, message: "Color must be a string." });
+      continue;
+    }
+    if (SHADOW_COLOR_KEYS.includes(key)) {
+      if (!raw.trim()) {
+        errors.push({ field, message: "Shadow cannot be empty." });
+        continue;
+      }
+    } else if (!isValidColor(raw)) {
+      errors.push({
+        field,
+        message: `"${raw}" is not a valid color. Use hex (#rrggbb), rgb(), hsl() or transparent.`,
+      });
+      continue;
+    }
+
+    colors[key as ThemeColorKey] = raw.trim();
+  }
+
+  return colors;
+}
+
+function validateFonts(value: unknown, errors: ThemeFieldError[]) {
+  const fonts: ThemeData["fonts"] = {};
+
+  if (value === undefined) return fonts;
+  if (!isPlainObject(value)) {
+    errors.push({ field: "fonts", message: "Fonts must be an object of key/value pairs." });
+    return fonts;
+  }
+
+  const known: readonly string[] = THEME_FONT_KEYS;
+  for (const [key, raw] of Object.entries(value)) {
+    const field = `fonts.${key}`;
+
+    if (!known.includes(key)) {
+      errors.push({ field, message: `Unknown font key "${key}".` });
+      continue;
+    }
+    if (typeof raw !== "string" || !raw.trim()) {
+      errors.push({ field, message: "Font value must be a non-empty string." });
+      continue;
+    }
+    if (FONT_WEIGHT_KEYS.includes(key) && !FONT_WEIGHT.test(raw.trim())) {
+      errors.push({
+        field,
+        message: `"${raw}" is not a valid font weight. Use 100-900, normal or bold.`,
+      });
+      continue;
+    }
+
+    fonts[key as ThemeFontKey] = raw.trim();
+  }
+
+  return fonts;
+}
+
+function validateMode(value: unknown, errors: ThemeFieldError[]): ThemeMode {
+  const mode = typeof value === "string" ? value.toLowerCase() : value;
+
+  if ((THEME_MODES as readonly unknown[]).includes(mode)) {
+    return mode as ThemeMode;
+  }
+
+  errors.push({
+    field: "mode",
+    message:
+      value === undefined
+        ? `Mode is required (${THEME_MODES.join(" or ")}).`
+        : `Mode must be ${THEME_MODES.join(" or ")}.`,
+  });
+  return "dark";
+}
+
+function validateOptionalString(
+  value: unknown,
+  field: string,
+  errors: ThemeFieldError[]
+): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") {
+    errors.push({ field, message: `${field} must be a string.` });
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Validates a full theme file as uploaded by authors (metadata plus mode,
+ * fonts and colors). Unknown keys at any level are reported as errors.
+ */
+export function validateThemeFile(input: unknown): ThemeValidationResult<ThemeFile> {
+  const errors: ThemeFieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return { ok: false, errors: [{ field: "", message: "Theme file must be a JSON object." }] };
+  }
+
+  const allowed: readonly string[] = THEME_FILE_KEYS;
+  for (const key of Object.keys(input)) {
+    if (!allowed.includes(key)) {
+      errors.push({ field: key, message: `Unknown key "${key}".` });
+    }
+  }
+
+  const data: ThemeFile = {
+    name: validateOptionalString(input.name, "name", errors),
+    author: validateOptionalString(input.author, "author", errors),
+    version: validateOptionalString(input.version, "version", errors),
+    mode: validateMode(input.mode, errors),
+    fonts: validateFonts(input.fonts, errors),
+    colors: validateColors(input.colors, errors),
+  };
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data };
+}
+
+/**
+ * Validates the stored theme payload (the css_content column), which holds
+ * only mode, fonts and colors.
+ */
+export function validateThemeData(input: unknown): ThemeValidationResult<ThemeData> {
+  const errors: ThemeFieldError[] = [];
+
+  if (!isPlainObject(input)) {
+    return { ok: false, errors: [{ field: "", message: "Theme content must be a JSON object." }] };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (key !== "mode" && key !== "fonts" && key !== "colors") {
+      errors.push({ field: key, message: `Unknown key "${key}".` });
+    }
+  }
+
+  const data: ThemeData = {
+    mode: validateMode(input.mode, errors),
+    fonts: validateFonts(input.fonts, errors),
+    colors: validateColors(input.colors, errors),
+  };
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data };
+}
+
+function parseJson(text: string): ThemeValidationResult<unknown> {
+  try {
+    return { ok: true, data: JSON.parse(text) };
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : "Unknown error";
+    return { ok: false, errors: [{ field: "", message: `Invalid JSON: ${detail}` }] };
+  }
+}
+
+export function parseThemeFile(text: string): ThemeValidationResult<ThemeFile> {
+  const parsed = parseJson(text);
+  if (!parsed.ok) return parsed;
+  return validateThemeFile(parsed.data);
+}
+
+export function parseThemeContent(cssContent: string): ThemeValidationResult<ThemeData> {
+  const parsed = parseJson(cssContent);
+  if (!parsed.ok) return parsed;
+  return validateThemeData(parsed.data);
+}
+
+// Serializes validated theme data into the css_content column format.
+export function serializeThemeContent({ mode, fonts, colors }: ThemeData): string {
+  return JSON.stringify({ mode, fonts, colors }, null, 2);
+}
@@ -0,0 +1,95 @@
+// Theme search itself runs in the database (search_themes); these helpers
+// match short texts like tag names and highlight hits in results.
+
+// Exact words beat prefixes ("nor" → "nord"), which beat typos ("nrod" → "nord")
+const MATCH_SCORES = { exact: 1, prefix: 0.8, fuzzy: 0.5 } as const;
+
+export const MAX_SEARCH_LENGTH = 100;
+
+/** Lowercases, strips accents and splits into words of letters and digits in any script. */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// Short words must match exactly; longer ones tolerate more typos
+function allowedTypos(word: string) {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent swaps
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+/** How well one query word matches one word of the text, from 0 to 1. */
+export function matchWord(query: string, word: string): number {
+  if (word === query) return MATCH_SCORES.exact;
+  if (query.length >= 2 && word.startsWith(query)) return MATCH_SCORES.prefix;
+
+  const typos = allowedTypos(query);
+  if (typos > 0 && editDistance(query, word, typos) <= typos) return MATCH_SCORES.fuzzy;
+
+  return 0;
+}
+
+/** Whether every query word matches some word of the text. */
+export function matchesText(text: string, query: string): boolean {
+  const queryWords = tokenize(query.slice(0, MAX_SEARCH_LENGTH));
+  const words = tokenize(text);
+  return (
+    queryWords.length > 0 &&
+    queryWords.every((queryWord) => words.some((word) => matchWord(queryWord, word) > 0))
+  );
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/** Splits text into plain and matching runs for rendering with <mark>. */
+export function highlightMatches(text: string, query: string): HighlightPart[] {
+  const queryWords = tokenize(query.slice(0, MAX_SEARCH_LENGTH));
+  if (queryWords.length === 0) return [{ text, match: false }];
+
+  // Keep separators so the text round-trips exactly
+  return text
+    .split(/([^\p{L}\p{N}]+)/u)
+    .filter(Boolean)
+    .map((part) => {
+      const word = tokenize(part)[0];
+      return {
+        text: part,
+        match: !!word && queryWords.some((query) => matchWord(query, word) > 0),
+      };
+    });
+}
@@ -0,0 +1,60 @@
+import type { ThemeFieldError } from "./schema";
+
+// Mode tags (Light/Dark) are added automatically and don't count toward this.
+export const MAX_THEME_TAGS = 3;
+
+const TAG_NAME_MIN_LENGTH = 2;
+const TAG_NAME_MAX_LENGTH = 24;
+const TAG_NAME_PATTERN = /^[a-z0-9][a-z0-9 -]*$/i;
+
+export function slugifyTag(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+export function formatTagName(slug: string): string {
+  return slug.charAt(0).toUpperCase() + slug.slice(1);
+}
+
+export function validateTagName(name: string): string | null {
+  const trimmed = name.trim();
+
+  if (trimmed.length < TAG_NAME_MIN_LENGTH || trimmed.length > TAG_NAME_MAX_LENGTH) {
+    return `Tags must be ${TAG_NAME_MIN_LENGTH}-${TAG_NAME_MAX_LENGTH} characters long.`;
+  }
+  if (!TAG_NAME_PATTERN.test(trimmed)) {
+    return "Tags may only contain letters, numbers, spaces and hyphens.";
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes user-chosen tags: trims, de-duplicates by slug and enforces the
+ * naming rules and MAX_THEME_TAGS limit. Errors use the "tags" field.
+ */
+export function normalizeTags(
+  input: unknown,
+  errors: ThemeFieldError[]
+): { name: string; slug: string }[] {
+  if (input === undefined) return [];
+  if (!Array.isArray(input) || input.some((tag) => typeof tag !== "string")) {
+    errors.push({ field: "tags", message: "Tags must be a list of names." });
+    return [];
+  }
+
+  const tags = new Map<string, string>();
+  for (const raw of input as string[]) {
+    const problem = validateTagName(raw);
+    if (problem) {
+      errors.push({ field: "tags", message: `"${raw}": ${problem}` });
+      continue;
+    }
+    tags.set(slugifyTag(raw), raw.trim());
+  }
+
+  if (tags.size > MAX_THEME_TAGS) {
+    errors.push({ field: "tags", message: `Choose at most ${MAX_THEME_TAGS} tags.` });
+  }
+
+  return Array.from(tags, ([slug, name]) => ({ name, slug }));
+}
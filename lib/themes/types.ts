@@ -1,3 +1,8 @@
+import type { ThemeFieldError } from "./schema";
+import type { ModerationAction } from "./audit";
+import type { ThemeCheckReport } from "./checks";
+import type { ReportTargetType } from "./reports";
+
 export interface Theme {
   id: string;
   name: string;
@@ -9,18 +14,34 @@ export interface Theme {
   download_count: number;
   version: string;
   status?: string;
+  forked_from?: string | null;
+  rejection_reason?: string | null;
+  review_report?: ThemeCheckReport | null;
+  min_contrast_ratio?: number | null;
+  // CIE Lab of the searchable colors, see getSearchColors
+  search_colors?: number[];
+  // Kept in sync with theme_reviews so the gallery can sort on them
+  rating_average?: number | null;
+  rating_count?: number;
+  like_count?: number;
   created_at: string;
   updated_at: string;
   profiles?: Profile;
   theme_tags?: { tags: Tag }[];
 }
 
+export type ThemeSortOption = "newest" | "popular" | "top_rated" | "most_liked" | "name";
+
+export type ProfileRole = "user" | "moderator" | "admin";
+
 export interface Profile {
   id: string;
   username: string | null;
   display_name: string | null;
   avatar_url: string | null;
   bio: string | null;
+  role?: ProfileRole | null;
+  suspended_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -36,6 +57,97 @@ export interface ThemeVersion {
   theme_id: string;
   version: string;
   css_content: string;
+  changelog?: string | null;
+  created_at: string;
+}
+
+// One user's rating of a theme; each user has at most one per theme
+export interface ThemeReview {
+  id: string;
+  theme_id: string;
+  user_id: string;
+  rating: number;
+  body: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles?: Profile;
+}
+
+// Replies point at their parent; deleted comments keep their row (with an
+// empty body) so replies below them stay in place
+export interface ThemeComment {
+  id: string;
+  theme_id: string;
+  user_id: string;
+  parent_id: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  profiles?: Profile;
+}
+
+export interface ContentReport {
+  id: string;
+  reporter_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: string;
+  status: "open" | "dismissed" | "actioned";
+  created_at: string;
+}
+
+export interface ThemeCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  created_at: string;
+  updated_at: string;
+  profiles?: Profile;
+  // Ordered by position
+  themes?: Theme[];
+  theme_count?: number;
+}
+
+export interface CollectionInput {
+  name: string;
+  description?: string;
+  is_public: boolean;
+}
+
+export type ThemeRevisionStatus = "pending" | "approved" | "rejected";
+
+// Proposed change to an approved theme, held back until a moderator reviews it
+export interface ThemeRevision {
+  id: string;
+  theme_id: string;
+  user_id: string;
+  name: string | null;
+  description: string | null;
+  version: string;
+  css_content: string;
+  changelog: string | null;
+  status: ThemeRevisionStatus;
+  rejection_reason: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+// One row of moderation_audit_log. theme_name is a snapshot so entries stay
+// readable after the theme is renamed or deleted.
+export interface ModerationAuditEntry {
+  id: string;
+  actor_id: string;
+  action: ModerationAction;
+  theme_id: string | null;
+  theme_name: string | null;
+  revision_id: string | null;
+  from_status: string | null;
+  to_status: string | null;
+  reason: string | null;
+  details: Record<string, unknown> | null;
   created_at: string;
 }
 
@@ -54,3 +166,23 @@ export interface ProfileInput {
   avatar_url?: string;
   bio?: string;
 }
+
+export interface ThemeSubmissionInput {
+  name: string;
+  version: string;
+  css_content: string;
+  tags?: string[];
+  forked_from?: string;
+}
+
+export interface ThemeUpdateInput {
+  version: string;
+  css_content: string;
+  changelog?: string;
+  name?: string;
+  description?: string;
+}
+
+export type ThemeSubmissionResult =
+  | { ok: true; themeId: string; pendingReview?: boolean }
+  | { ok: false; errors: ThemeFieldError[] };
@@ -0,0 +1,281 @@
+import type { ThemeColorKey, ThemeData, ThemeFontKey } from "./schema";
+
+// Defaults match default_dark.json in the desktop app and the fallbacks used
+// by ThemePreview.
+export const DEFAULT_THEME_COLORS: Record<ThemeColorKey, string> = {
+  bg: "#141414",
+  tabBg: "#1d1d1d",
+  tabBgHover: "#272727",
+  tabBgActive: "#313131",
+  tabText: "#e8e8e8",
+  tabTextHover: "#f2f2f2",
+  tabTextActive: "#ffffff",
+  tabBorder: "#353535",
+  tabBorderHover: "#464646",
+  tabBorderActive: "#595959",
+  text1: "#e8e8e8",
+  text2: "#b9b9b9",
+  text3: "#8f8f8f",
+  urlBarBg: "#181818",
+  urlBarBgHover: "#202020",
+  urlBarBgActive: "#282828",
+  urlBarText: "#efefef",
+  urlBarTextPlaceholder: "#8b8b8b",
+  urlBarBorder: "#3a3a3a",
+  urlBarBorderHover: "#4b4b4b",
+  urlBarBorderActive: "#5f5f5f",
+  surfaceBg: "#1d1d1d",
+  surfaceBgHover: "#272727",
+  surfaceBgActive: "#313131",
+  surfaceText: "#e8e8e8",
+  surfaceTextHover: "#f2f2f2",
+  surfaceTextActive: "#ffffff",
+  surfaceBorder: "#353535",
+  surfaceBorderHover: "#464646",
+  surfaceBorderActive: "#595959",
+  navButtonBg: "transparent",
+  navButtonBgHover: "#ffffff1a",
+  navButtonBgActive: "#ffffff2e",
+  navButtonText: "#ededed",
+  navButtonTextHover: "#f6f6f6",
+  navButtonTextActive: "#ffffff",
+  navButtonBorder: "#4a4a4a",
+  navButtonBorderHover: "#5b5b5b",
+  navButtonBorderActive: "#6f6f6f",
+  downloadButtonBg: "#2a2a2a",
+  downloadButtonBgHover: "#353535",
+  downloadButtonBgActive: "#404040",
+  downloadButtonText: "#ededed",
+  downloadButtonTextHover: "#f6f6f6",
+  downloadButtonTextActive: "#ffffff",
+  downloadButtonBorder: "#4a4a4a",
+  downloadButtonBorderHover: "#5b5b5b",
+  downloadButtonBorderActive: "#6f6f6f",
+  fieldBg: "#181818",
+  fieldBgHover: "#202020",
+  fieldBgActive: "#282828",
+  fieldText: "#efefef",
+  fieldTextPlaceholder: "#8b8b8b",
+  fieldBorder: "#3a3a3a",
+  fieldBorderHover: "#4b4b4b",
+  fieldBorderActive: "#5f5f5f",
+  settingsCardBg: "#1d1d1d",
+  settingsCardBorder: "#353535",
+  settingsCardText: "#e8e8e8",
+  settingsCardDescription: "#b9b9b9",
+  settingsTabsBg: "#202020",
+  settingsTabsBorder: "#3f3f3f",
+  settingsRowBg: "#232323",
+  settingsRowBgHover: "#2c2c2c",
+  settingsRowBorder: "#3f3f3f",
+  settingsRowBorderHover: "#525252",
+  contextMenuBg: "#202020",
+  contextMenuBgHover: "#2b2b2b",
+  contextMenuBgActive: "#363636",
+  contextMenuText: "#efefef",
+  contextMenuTextHover: "#ffffff",
+  contextMenuBorder: "#474747",
+  contextMenuDivider: "#5f5f5f",
+  contextMenuShadow: "0 16px 38px rgba(0, 0, 0, 0.46)",
+  accentPrimary: "#8f8f85",
+  accentPrimarySoft: "#77776f",
+  accentText: "#cfcfc8",
+};
+
+export const DEFAULT_THEME_FONTS: Record<ThemeFontKey, string> = {
+  fontPrimaryFamily: "'Segoe UI'",
+  fontSecondaryFamily: "'Segoe UI'",
+  fontPrimaryWeight: "400",
+  fontSecondaryWeight: "300",
+};
+
+export const DEFAULT_THEME_DATA: ThemeData = {
+  mode: "dark",
+  fonts: { ...DEFAULT_THEME_FONTS },
+  colors: { ...DEFAULT_THEME_COLORS },
+};
+
+export interface ThemeColorGroup {
+  id: string;
+  label: string;
+  keys: ThemeColorKey[];
+}
+
+// Color variables grouped by the part of the browser UI they style
+export const THEME_COLOR_GROUPS: ThemeColorGroup[] = [
+  {
+    id: "base",
+    label: "Base & Text",
+    keys: ["bg", "text1", "text2", "text3"],
+  },
+  {
+    id: "tabs",
+    label: "Tabs",
+    keys: [
+      "tabBg",
+      "tabBgHover",
+      "tabBgActive",
+      "tabText",
+      "tabTextHover",
+      "tabTextActive",
+      "tabBorder",
+      "tabBorderHover",
+      "tabBorderActive",
+    ],
+  },
+  {
+    id: "url-bar",
+    label: "URL Bar",
+    keys: [
+      "urlBarBg",
+      "urlBarBgHover",
+      "urlBarBgActive",
+      "urlBarText",
+      "urlBarTextPlaceholder",
+      "urlBarBorder",
+      "urlBarBorderHover",
+      "urlBarBorderActive",
+    ],
+  },
+  {
+    id: "surfaces",
+    label: "Surfaces",
+    keys: [
+      "surfaceBg",
+      "surfaceBgHover",
+      "surfaceBgActive",
+      "surfaceText",
+      "surfaceTextHover",
+      "surfaceTextActive",
+      "surfaceBorder",
+      "surfaceBorderHover",
+      "surfaceBorderActive",
+    ],
+  },
+  {
+    id: "nav-buttons",
+    label: "Nav Buttons",
+    keys: [
+      "navButtonBg",
+      "navButtonBgHover",
+      "navButtonBgActive",
+      "navButtonText",
+      "navButtonTextHover",
+      "navButtonTextActive",
+      "navButtonBorder",
+      "navButtonBorderHover",
+      "navButtonBorderActive",
+    ],
+  },
+  {
+    id: "download-buttons",
+    label: "Download Buttons",
+    keys: [
+      "downloadButtonBg",
+      "downloadButtonBgHover",
+      "downloadButtonBgActive",
+      "downloadButtonText",
+      "downloadButtonTextHover",
+      "downloadButtonTextActive",
+      "downloadButtonBorder",
+      "downloadButtonBorderHover",
+      "downloadButtonBorderActive",
+    ],
+  },
+  {
+    id: "fields",
+    label: "Fields",
+    keys: [
+      "fieldBg",
+      "fieldBgHover",
+      "fieldBgActive",
+      "fieldText",
+      "fieldTextPlaceholder",
+      "fieldBorder",
+      "fieldBorderHover",
+      "fieldBorderActive",
+    ],
+  },
+  {
+    id: "settings",
+    label: "Settings",
+    keys: [
+      "settingsCardBg",
+      "settingsCardBorder",
+      "settingsCardText",
+      "settingsCardDescription",
+      "settingsTabsBg",
+      "settingsTabsBorder",
+      "settingsRowBg",
+      "settingsRowBgHover",
+      "settingsRowBorder",
+      "settingsRowBorderHover",
+    ],
+  },
+  {
+    id: "context-menu",
+    label: "Context Menu",
+    keys: [
+      "contextMenuBg",
+      "contextMenuBgHover",
+      "contextMenuBgActive",
+      "contextMenuText",
+      "contextMenuTextHover",
+      "contextMenuBorder",
+      "contextMenuDivider",
+      "contextMenuShadow",
+    ],
+  },
+  {
+    id: "accent",
+    label: "Accent",
+    keys: ["accentPrimary", "accentPrimarySoft", "accentText"],
+  },
+];
+
+export const FONT_FAMILY_OPTIONS = [
+  "'Segoe UI'",
+  "system-ui",
+  "Inter",
+  "Roboto",
+  "'Helvetica Neue'",
+  "Arial",
+  "Georgia",
+  "'Times New Roman'",
+  "'JetBrains Mono'",
+  "'Fira Code'",
+  "monospace",
+];
+
+// Every weight the schema accepts, so imported themes keep theirs
+export const FONT_WEIGHT_OPTIONS = [
+  "100",
+  "200",
+  "300",
+  "400",
+  "500",
+  "600",
+  "700",
+  "800",
+  "900",
+  "normal",
+  "bold",
+  "lighter",
+  "bolder",
+];
+
+// "tabBgHover" -> "Tab Bg Hover"
+export function formatVariableLabel(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+/** Fills any missing colors and fonts with the defaults. */
+export function withThemeDefaults(data: ThemeData): ThemeData {
+  return {
+    mode: data.mode,
+    fonts: { ...DEFAULT_THEME_FONTS, ...data.fonts },
+    colors: { ...DEFAULT_THEME_COLORS, ...data.colors },
+  };
+}
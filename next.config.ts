@@ -4,6 +4,10 @@ const nextConfig: NextConfig = {
   images: {
     qualities: [100, 75],
   },
+  experimental: {
+    // Enables forbidden() for admin pages
+    authInterrupts: true,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { updateSession } from "@/lib/supabase/middleware";
+import { AdminAccessError, requireAdmin } from "@/lib/auth/admin";
+
+export async function proxy(request: NextRequest) {
+  const { supabase, response } = await updateSession(request);
+
+  // Admin routes need a staff role; pages may require a higher one themselves
+  if (request.nextUrl.pathname.startsWith("/admin")) {
+    try {
+      await requireAdmin(supabase);
+    } catch (error) {
+      if (!(error instanceof AdminAccessError)) throw error;
+      return new NextResponse(error.status === 401 ? "Unauthorized" : "Forbidden", {
+        status: error.status,
+      });
+    }
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: [
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+  ],
+};
@@ -0,0 +1,8 @@
+-- Remixes point at the theme they started from. Deleting the original keeps
+-- the remix and only drops the link.
+
+alter table public.themes
+  add column if not exists forked_from uuid references public.themes (id) on delete set null;
+
+-- Lists the remixes of a theme on its page
+create index if not exists themes_forked_from_idx on public.themes (forked_from);
@@ -0,0 +1,3 @@
+-- Authors describe what changed when they publish a new version
+alter table public.versions
+  add column if not exists changelog text;
@@ -0,0 +1,63 @@
+-- Updates to approved themes wait here until a moderator approves them; the
+-- live theme keeps serving the previous version meanwhile.
+
+-- Whether the signed-in user may moderate. Security definer so policies can
+-- read profiles without depending on its own policies.
+create or replace function public.current_user_is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select is_admin from public.profiles where id = auth.uid()), false);
+$$;
+
+create table if not exists public.theme_revisions (
+  id uuid primary key default gen_random_uuid(),
+  theme_id uuid not null references public.themes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text,
+  description text,
+  version text not null,
+  css_content text not null,
+  changelog text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz
+);
+
+create index if not exists theme_revisions_theme_id_idx on public.theme_revisions (theme_id, created_at desc);
+create index if not exists theme_revisions_pending_idx on public.theme_revisions (created_at desc) where status = 'pending';
+
+alter table public.theme_revisions enable row level security;
+
+drop policy if exists "Authors and staff read revisions" on public.theme_revisions;
+create policy "Authors and staff read revisions"
+  on public.theme_revisions for select
+  using (user_id = auth.uid() or public.current_user_is_staff());
+
+-- Authors submit revisions for their own themes only
+drop policy if exists "Authors submit revisions" on public.theme_revisions;
+create policy "Authors submit revisions"
+  on public.theme_revisions for insert
+  with check (
+    user_id = auth.uid()
+    and status = 'pending'
+    and exists (
+      select 1 from public.themes where id = theme_id and user_id = auth.uid()
+    )
+  );
+
+-- A newer submission replaces the author's pending revision in place
+drop policy if exists "Authors replace pending revisions" on public.theme_revisions;
+create policy "Authors replace pending revisions"
+  on public.theme_revisions for update
+  using (user_id = auth.uid() and status = 'pending')
+  with check (user_id = auth.uid() and status = 'pending');
+
+drop policy if exists "Staff review revisions" on public.theme_revisions;
+create policy "Staff review revisions"
+  on public.theme_revisions for update
+  using (public.current_user_is_staff())
+  with check (public.current_user_is_staff());
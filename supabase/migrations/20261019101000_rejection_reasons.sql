@@ -0,0 +1,8 @@
+-- Moderators say why they rejected a theme or an update, and authors see the
+-- reason next to it. Resubmitting clears it.
+
+alter table public.themes
+  add column if not exists rejection_reason text;
+
+alter table public.theme_revisions
+  add column if not exists rejection_reason text;
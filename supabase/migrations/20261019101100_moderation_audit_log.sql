@@ -0,0 +1,45 @@
+-- Append-only record of moderation actions. theme_id and revision_id have no
+-- foreign keys: entries outlive the themes they describe, and theme_name keeps
+-- them readable.
+
+-- Whether the signed-in user is an admin, the only role that reads the log
+create or replace function public.current_user_is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select is_admin from public.profiles where id = auth.uid()), false);
+$$;
+
+create table if not exists public.moderation_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid not null references auth.users (id),
+  action text not null,
+  theme_id uuid,
+  theme_name text,
+  revision_id uuid,
+  from_status text,
+  to_status text,
+  reason text,
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_audit_log_created_at_idx on public.moderation_audit_log (created_at desc);
+create index if not exists moderation_audit_log_actor_idx on public.moderation_audit_log (actor_id, created_at desc);
+create index if not exists moderation_audit_log_action_idx on public.moderation_audit_log (action, created_at);
+
+alter table public.moderation_audit_log enable row level security;
+
+drop policy if exists "Admins read the audit log" on public.moderation_audit_log;
+create policy "Admins read the audit log"
+  on public.moderation_audit_log for select
+  using (public.current_user_is_admin());
+
+-- Staff log their own actions; nobody updates or deletes entries
+drop policy if exists "Staff record their actions" on public.moderation_audit_log;
+create policy "Staff record their actions"
+  on public.moderation_audit_log for insert
+  with check (actor_id = auth.uid() and public.current_user_is_staff());
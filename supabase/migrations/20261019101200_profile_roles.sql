@@ -0,0 +1,56 @@
+-- Staff roles: moderators review themes, admins can also delete them and read
+-- the audit log. The older is_admin flag still counts as admin.
+
+alter table public.profiles
+  add column if not exists role text not null default 'user'
+    check (role in ('user', 'moderator', 'admin'));
+
+create or replace function public.current_user_is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select role in ('moderator', 'admin') or coalesce(is_admin, false) from public.profiles where id = auth.uid()),
+    false
+  );
+$$;
+
+create or replace function public.current_user_is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select role = 'admin' or coalesce(is_admin, false) from public.profiles where id = auth.uid()),
+    false
+  );
+$$;
+
+-- Users edit their own profile, but only admins hand out roles. Requests
+-- without a user (the service role, SQL) are trusted.
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+    and (new.role is distinct from old.role or new.is_admin is distinct from old.is_admin)
+    and not public.current_user_is_admin()
+  then
+    raise exception 'Only admins can change roles' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+  before update on public.profiles
+  for each row execute function public.profiles_protect_role();
@@ -0,0 +1,4 @@
+-- Automated pre-review findings (schema, contrast, duplicates, wording),
+-- stored when a theme enters the review queue
+alter table public.themes
+  add column if not exists review_report jsonb;
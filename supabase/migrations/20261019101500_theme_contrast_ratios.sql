@@ -0,0 +1,8 @@
+-- Lowest WCAG contrast ratio across a theme's text colors, computed by the
+-- app (getMinContrastRatio) so the gallery can filter on accessibility
+alter table public.themes
+  add column if not exists min_contrast_ratio real;
+
+create index if not exists themes_min_contrast_ratio_idx
+  on public.themes (min_contrast_ratio)
+  where status = 'approved';
@@ -0,0 +1,11 @@
+-- Sum of every theme's download counter for the analytics dashboard, so the
+-- app doesn't page through the whole themes table to add it up.
+
+create or replace function public.get_total_downloads()
+returns bigint
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(download_count), 0)::bigint from public.themes;
+$$;
@@ -0,0 +1,54 @@
+-- Star ratings with an optional written review, one per user per theme.
+-- themes.rating_average and rating_count cache the totals for the gallery.
+
+alter table public.themes
+  add column if not exists rating_average numeric(3, 2),
+  add column if not exists rating_count int not null default 0;
+
+create index if not exists themes_top_rated_idx
+  on public.themes (rating_average desc nulls last, rating_count desc)
+  where status = 'approved';
+
+create table if not exists public.theme_reviews (
+  id uuid primary key default gen_random_uuid(),
+  theme_id uuid not null references public.themes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  rating int not null check (rating between 1 and 5),
+  body text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (theme_id, user_id)
+);
+
+create index if not exists theme_reviews_theme_id_idx on public.theme_reviews (theme_id, updated_at desc);
+create index if not exists theme_reviews_user_id_idx on public.theme_reviews (user_id);
+
+alter table public.theme_reviews enable row level security;
+
+drop policy if exists "Anyone reads reviews" on public.theme_reviews;
+create policy "Anyone reads reviews"
+  on public.theme_reviews for select
+  using (true);
+
+-- Approved themes only, and not your own
+drop policy if exists "Users review themes" on public.theme_reviews;
+create policy "Users review themes"
+  on public.theme_reviews for insert
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.themes
+      where id = theme_id and status = 'approved' and user_id <> auth.uid()
+    )
+  );
+
+drop policy if exists "Users edit their reviews" on public.theme_reviews;
+create policy "Users edit their reviews"
+  on public.theme_reviews for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users and staff delete reviews" on public.theme_reviews;
+create policy "Users and staff delete reviews"
+  on public.theme_reviews for delete
+  using (user_id = auth.uid() or public.current_user_is_staff());
@@ -0,0 +1,38 @@
+-- Likes, at most one per user per theme. Profiles list what a user liked, so
+-- likes are public. themes.like_count caches the total for the gallery.
+
+alter table public.themes
+  add column if not exists like_count int not null default 0;
+
+create index if not exists themes_most_liked_idx
+  on public.themes (like_count desc)
+  where status = 'approved';
+
+create table if not exists public.theme_likes (
+  theme_id uuid not null references public.themes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (theme_id, user_id)
+);
+
+create index if not exists theme_likes_user_id_idx on public.theme_likes (user_id, created_at desc);
+
+alter table public.theme_likes enable row level security;
+
+drop policy if exists "Anyone reads likes" on public.theme_likes;
+create policy "Anyone reads likes"
+  on public.theme_likes for select
+  using (true);
+
+drop policy if exists "Users like approved themes" on public.theme_likes;
+create policy "Users like approved themes"
+  on public.theme_likes for insert
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.themes where id = theme_id and status = 'approved')
+  );
+
+drop policy if exists "Users remove their likes" on public.theme_likes;
+create policy "Users remove their likes"
+  on public.theme_likes for delete
+  using (user_id = auth.uid());
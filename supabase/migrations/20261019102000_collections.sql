@@ -0,0 +1,90 @@
+-- User-curated, ordered lists of themes. Private collections are visible to
+-- their owner only; only the owner changes a collection or its themes.
+
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  description text,
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists collections_user_id_idx on public.collections (user_id, updated_at desc);
+create index if not exists collections_public_idx on public.collections (updated_at desc) where is_public;
+
+create table if not exists public.collection_themes (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  theme_id uuid not null references public.themes (id) on delete cascade,
+  position int not null default 0,
+  created_at timestamptz not null default now(),
+  primary key (collection_id, theme_id)
+);
+
+create index if not exists collection_themes_theme_id_idx on public.collection_themes (theme_id);
+
+alter table public.collections enable row level security;
+alter table public.collection_themes enable row level security;
+
+drop policy if exists "Public or own collections are readable" on public.collections;
+create policy "Public or own collections are readable"
+  on public.collections for select
+  using (is_public or user_id = auth.uid());
+
+drop policy if exists "Users create collections" on public.collections;
+create policy "Users create collections"
+  on public.collections for insert
+  with check (user_id = auth.uid());
+
+drop policy if exists "Owners update collections" on public.collections;
+create policy "Owners update collections"
+  on public.collections for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Owners delete collections" on public.collections;
+create policy "Owners delete collections"
+  on public.collections for delete
+  using (user_id = auth.uid());
+
+-- Whether the signed-in user owns the collection. Security definer so the
+-- collection_themes policies don't depend on the collections policies.
+create or replace function public.current_user_owns_collection(target_collection_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.collections where id = target_collection_id and user_id = auth.uid()
+  );
+$$;
+
+drop policy if exists "Themes of readable collections are readable" on public.collection_themes;
+create policy "Themes of readable collections are readable"
+  on public.collection_themes for select
+  using (
+    exists (
+      select 1 from public.collections as c
+      where c.id = collection_id and (c.is_public or c.user_id = auth.uid())
+    )
+  );
+
+drop policy if exists "Owners add themes" on public.collection_themes;
+create policy "Owners add themes"
+  on public.collection_themes for insert
+  with check (public.current_user_owns_collection(collection_id));
+
+-- Reordering rewrites positions in place
+drop policy if exists "Owners reorder themes" on public.collection_themes;
+create policy "Owners reorder themes"
+  on public.collection_themes for update
+  using (public.current_user_owns_collection(collection_id))
+  with check (public.current_user_owns_collection(collection_id));
+
+drop policy if exists "Owners remove themes" on public.collection_themes;
+create policy "Owners remove themes"
+  on public.collection_themes for delete
+  using (public.current_user_owns_collection(collection_id));
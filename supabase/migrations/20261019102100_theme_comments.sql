@@ -0,0 +1,87 @@
+-- Threaded comments on theme pages, and the reports users file against them.
+-- Comments are never deleted: removing one blanks its body and sets
+-- deleted_at, so replies below it stay in place.
+
+create table if not exists public.theme_comments (
+  id uuid primary key default gen_random_uuid(),
+  theme_id uuid not null references public.themes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  parent_id uuid references public.theme_comments (id) on delete cascade,
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index if not exists theme_comments_theme_id_idx on public.theme_comments (theme_id, created_at);
+create index if not exists theme_comments_parent_id_idx on public.theme_comments (parent_id);
+
+alter table public.theme_comments enable row level security;
+
+drop policy if exists "Anyone reads comments" on public.theme_comments;
+create policy "Anyone reads comments"
+  on public.theme_comments for select
+  using (true);
+
+drop policy if exists "Users comment on approved themes" on public.theme_comments;
+create policy "Users comment on approved themes"
+  on public.theme_comments for insert
+  with check (
+    user_id = auth.uid()
+    and deleted_at is null
+    and exists (select 1 from public.themes where id = theme_id and status = 'approved')
+  );
+
+-- Authors edit or remove their own comments; staff remove anyone's
+drop policy if exists "Authors edit their comments" on public.theme_comments;
+create policy "Authors edit their comments"
+  on public.theme_comments for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Staff moderate comments" on public.theme_comments;
+create policy "Staff moderate comments"
+  on public.theme_comments for update
+  using (public.current_user_is_staff())
+  with check (public.current_user_is_staff());
+
+-- One report per user per target; reporting again updates the reason.
+-- target_id has no foreign key so reports can point at any kind of content.
+create table if not exists public.reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  target_type text not null check (target_type in ('comment')),
+  target_id uuid not null,
+  reason text not null,
+  status text not null default 'open' check (status in ('open', 'dismissed', 'actioned')),
+  created_at timestamptz not null default now(),
+  unique (reporter_id, target_type, target_id)
+);
+
+create index if not exists reports_open_idx on public.reports (target_type, target_id) where status = 'open';
+create index if not exists reports_status_idx on public.reports (status, created_at desc);
+
+alter table public.reports enable row level security;
+
+-- Moderators work the reports queue; reporters see only their own reports
+drop policy if exists "Staff and reporters read reports" on public.reports;
+create policy "Staff and reporters read reports"
+  on public.reports for select
+  using (reporter_id = auth.uid() or public.current_user_is_staff());
+
+drop policy if exists "Users file reports" on public.reports;
+create policy "Users file reports"
+  on public.reports for insert
+  with check (reporter_id = auth.uid() and status = 'open');
+
+drop policy if exists "Reporters refile reports" on public.reports;
+create policy "Reporters refile reports"
+  on public.reports for update
+  using (reporter_id = auth.uid())
+  with check (reporter_id = auth.uid() and status = 'open');
+
+drop policy if exists "Staff resolve reports" on public.reports;
+create policy "Staff resolve reports"
+  on public.reports for update
+  using (public.current_user_is_staff())
+  with check (public.current_user_is_staff());
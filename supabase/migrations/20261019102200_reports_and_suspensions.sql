@@ -0,0 +1,72 @@
+-- Reports cover themes and users as well as comments, and admins can suspend
+-- accounts. Suspended users keep read access but can't post anything new.
+
+alter table public.reports drop constraint if exists reports_target_type_check;
+alter table public.reports
+  add constraint reports_target_type_check check (target_type in ('theme', 'user', 'comment'));
+
+alter table public.profiles
+  add column if not exists suspended_at timestamptz;
+
+drop policy if exists "Admins update profiles" on public.profiles;
+create policy "Admins update profiles"
+  on public.profiles for update
+  using (public.current_user_is_admin())
+  with check (public.current_user_is_admin());
+
+-- Users can't lift their own suspension
+create or replace function public.profiles_protect_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+    and (
+      new.role is distinct from old.role
+      or new.is_admin is distinct from old.is_admin
+      or new.suspended_at is distinct from old.suspended_at
+    )
+    and not public.current_user_is_admin()
+  then
+    raise exception 'Only admins can change roles or suspensions' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.current_user_is_suspended()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select suspended_at is not null from public.profiles where id = auth.uid()), false);
+$$;
+
+drop policy if exists "Suspended users can't upload" on public.themes;
+create policy "Suspended users can't upload"
+  on public.themes as restrictive for insert
+  with check (not public.current_user_is_suspended());
+
+drop policy if exists "Suspended users can't submit revisions" on public.theme_revisions;
+create policy "Suspended users can't submit revisions"
+  on public.theme_revisions as restrictive for insert
+  with check (not public.current_user_is_suspended());
+
+drop policy if exists "Suspended users can't review" on public.theme_reviews;
+create policy "Suspended users can't review"
+  on public.theme_reviews as restrictive for insert
+  with check (not public.current_user_is_suspended());
+
+drop policy if exists "Suspended users can't comment" on public.theme_comments;
+create policy "Suspended users can't comment"
+  on public.theme_comments as restrictive for insert
+  with check (not public.current_user_is_suspended());
+
+drop policy if exists "Suspended users can't create collections" on public.collections;
+create policy "Suspended users can't create collections"
+  on public.collections as restrictive for insert
+  with check (not public.current_user_is_suspended());
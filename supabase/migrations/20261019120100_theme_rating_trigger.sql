@@ -0,0 +1,62 @@
+-- themes.rating_average and rating_count follow theme_reviews. Reviewers can't
+-- update other people's themes under RLS, so a security definer trigger keeps
+-- the columns in sync with every review write.
+
+create or replace function public.update_theme_rating(target_theme_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.themes
+  set
+    rating_count = stats.review_count,
+    rating_average = stats.average
+  from (
+    select count(*)::int as review_count, round(avg(rating)::numeric, 2) as average
+    from public.theme_reviews
+    where theme_id = target_theme_id
+  ) as stats
+  where id = target_theme_id;
+$$;
+
+revoke execute on function public.update_theme_rating(uuid) from public, anon, authenticated;
+
+create or replace function public.theme_reviews_refresh_rating()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.update_theme_rating(new.theme_id);
+  elsif tg_op = 'DELETE' then
+    perform public.update_theme_rating(old.theme_id);
+  else
+    perform public.update_theme_rating(new.theme_id);
+    if new.theme_id is distinct from old.theme_id then
+      perform public.update_theme_rating(old.theme_id);
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists theme_reviews_refresh_rating on public.theme_reviews;
+create trigger theme_reviews_refresh_rating
+  after insert or update of rating, theme_id or delete on public.theme_reviews
+  for each row execute function public.theme_reviews_refresh_rating();
+
+-- Bring existing themes in line
+update public.themes as t
+set
+  rating_count = stats.review_count,
+  rating_average = stats.average
+from (
+  select th.id, count(r.id)::int as review_count, round(avg(r.rating)::numeric, 2) as average
+  from public.themes as th
+  left join public.theme_reviews as r on r.theme_id = th.id
+  group by th.id
+) as stats
+where stats.id = t.id;
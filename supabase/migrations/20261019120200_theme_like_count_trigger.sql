@@ -0,0 +1,47 @@
+-- themes.like_count follows theme_likes. Users can't update other people's
+-- themes under RLS, so a security definer trigger keeps the count in sync.
+
+create or replace function public.update_theme_like_count(target_theme_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.themes
+  set like_count = (select count(*)::int from public.theme_likes where theme_id = target_theme_id)
+  where id = target_theme_id;
+$$;
+
+revoke execute on function public.update_theme_like_count(uuid) from public, anon, authenticated;
+
+create or replace function public.theme_likes_refresh_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform public.update_theme_like_count(old.theme_id);
+  else
+    perform public.update_theme_like_count(new.theme_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists theme_likes_refresh_count on public.theme_likes;
+create trigger theme_likes_refresh_count
+  after insert or delete on public.theme_likes
+  for each row execute function public.theme_likes_refresh_count();
+
+-- Bring existing themes in line
+update public.themes as t
+set like_count = stats.like_count
+from (
+  select th.id, count(l.theme_id)::int as like_count
+  from public.themes as th
+  left join public.theme_likes as l on l.theme_id = th.id
+  group by th.id
+) as stats
+where stats.id = t.id;
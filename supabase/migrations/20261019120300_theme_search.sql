@@ -0,0 +1,186 @@
+-- Full-text search for the gallery. Each theme keeps a weighted search
+-- document (name > tags > author > description) and a plain-text copy for
+-- trigram matching, which catches typos the tsquery can't.
+
+create extension if not exists pg_trgm with schema extensions;
+create extension if not exists unaccent with schema extensions;
+
+alter table public.themes
+  add column if not exists search_vector tsvector,
+  add column if not exists search_text text not null default '';
+
+create index if not exists themes_search_vector_idx
+  on public.themes using gin (search_vector);
+create index if not exists themes_search_text_trgm_idx
+  on public.themes using gin (search_text extensions.gin_trgm_ops);
+
+create or replace function public.themes_set_search()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  tag_names text;
+  owner_name text;
+begin
+  select string_agg(tg.name, ' ')
+  into tag_names
+  from public.theme_tags as tt
+  join public.tags as tg on tg.id = tt.tag_id
+  where tt.theme_id = new.id;
+
+  select p.display_name into owner_name from public.profiles as p where p.id = new.user_id;
+
+  new.search_vector :=
+    setweight(to_tsvector('simple', unaccent(coalesce(new.name, ''))), 'A') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(tag_names, ''))), 'B') ||
+    setweight(to_tsvector('simple', unaccent(concat_ws(' ', new.author_name, owner_name))), 'C') ||
+    setweight(to_tsvector('simple', unaccent(coalesce(new.description, ''))), 'D');
+  new.search_text := lower(unaccent(
+    concat_ws(' ', new.name, tag_names, new.author_name, owner_name, new.description)
+  ));
+  return new;
+end;
+$$;
+
+drop trigger if exists themes_set_search on public.themes;
+create trigger themes_set_search
+  before insert or update of name, description, author_name, user_id on public.themes
+  for each row execute function public.themes_set_search();
+
+-- Tags and display names live in other tables; touching the theme's name
+-- re-runs themes_set_search without changing anything else
+
+create or replace function public.theme_tags_refresh_search()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    update public.themes set name = name where id = old.theme_id;
+  else
+    update public.themes set name = name where id = new.theme_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists theme_tags_refresh_search on public.theme_tags;
+create trigger theme_tags_refresh_search
+  after insert or delete on public.theme_tags
+  for each row execute function public.theme_tags_refresh_search();
+
+create or replace function public.tags_refresh_search()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.themes
+  set name = name
+  where id in (select theme_id from public.theme_tags where tag_id = new.id);
+  return null;
+end;
+$$;
+
+drop trigger if exists tags_refresh_search on public.tags;
+create trigger tags_refresh_search
+  after update of name on public.tags
+  for each row execute function public.tags_refresh_search();
+
+create or replace function public.profiles_refresh_search()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.themes set name = name where user_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_refresh_search on public.profiles;
+create trigger profiles_refresh_search
+  after update of display_name on public.profiles
+  for each row execute function public.profiles_refresh_search();
+
+-- Ranked, filtered and paged gallery search. Every query word has to match
+-- as a word or word prefix, unless the whole query is close enough to some
+-- part of the text to count as a typo. Mode filters arrive as required tags.
+create or replace function public.search_themes(
+  p_query text,
+  p_required_tags text[] default '{}',
+  p_any_tags text[] default '{}',
+  p_exclude_tags text[] default '{}',
+  p_author_id uuid default null,
+  p_min_contrast real default null,
+  p_sort text default 'newest',
+  p_limit int default 50,
+  p_offset int default 0
+)
+returns table (id uuid, rank real)
+language sql
+stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  with query as (
+    select
+      lower(unaccent(p_query)) as plain,
+      (
+        select to_tsquery('simple', string_agg(word || ':*', ' & '))
+        from regexp_split_to_table(lower(unaccent(p_query)), '[^[:alnum:]]+') as word
+        where word <> ''
+      ) as terms
+  )
+  select
+    t.id,
+    (ts_rank(t.search_vector, query.terms) + word_similarity(query.plain, t.search_text))::real as rank
+  from public.themes as t, query
+  where t.status = 'approved'
+    and (t.search_vector @@ query.terms or query.plain <% t.search_text)
+    and (
+      cardinality(p_required_tags) = 0
+      or (
+        select count(distinct tg.slug)
+        from public.theme_tags as tt
+        join public.tags as tg on tg.id = tt.tag_id
+        where tt.theme_id = t.id and tg.slug = any (p_required_tags)
+      ) = cardinality(p_required_tags)
+    )
+    and (
+      cardinality(p_any_tags) = 0
+      or exists (
+        select 1
+        from public.theme_tags as tt
+        join public.tags as tg on tg.id = tt.tag_id
+        where tt.theme_id = t.id and tg.slug = any (p_any_tags)
+      )
+    )
+    and not exists (
+      select 1
+      from public.theme_tags as tt
+      join public.tags as tg on tg.id = tt.tag_id
+      where tt.theme_id = t.id and tg.slug = any (p_exclude_tags)
+    )
+    and (p_author_id is null or t.user_id = p_author_id)
+    and (p_min_contrast is null or t.min_contrast_ratio >= p_min_contrast)
+  -- The chosen sort only breaks ties between equally relevant themes
+  order by
+    rank desc,
+    case when p_sort = 'popular' then t.download_count end desc nulls last,
+    case when p_sort = 'top_rated' then t.rating_average end desc nulls last,
+    case when p_sort = 'most_liked' then t.like_count end desc nulls last,
+    case when p_sort = 'name' then t.name end asc,
+    t.created_at desc
+  limit p_limit
+  offset p_offset;
+$$;
+
+-- Bring existing themes in line
+update public.themes set name = name;
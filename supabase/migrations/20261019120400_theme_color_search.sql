@@ -0,0 +1,103 @@
+-- Color search in the database. search_colors holds the CIE Lab values of a
+-- theme's searchable colors (defaults applied, translucent colors composited)
+-- as [l, a, b, l, a, b, ...]. The app computes them when it writes
+-- css_content; "Recompute Colors" on the admin dashboard fills existing rows.
+
+alter table public.themes
+  add column if not exists search_colors double precision[] not null default '{}';
+
+drop function if exists public.search_themes(text, text[], text[], text[], uuid, real, text, int, int);
+
+-- Ranked, filtered and paged gallery search by text, color or both. Every
+-- query word has to match as a word or word prefix, unless the whole query
+-- is close enough to some part of the text to count as a typo. A color
+-- matches when one of the theme's colors is within p_max_color_distance
+-- (CIE76 ΔE). Relevance wins over color closeness; the chosen sort breaks the
+-- remaining ties. Mode filters arrive as required tags.
+create or replace function public.search_themes(
+  p_query text default null,
+  p_color_lab double precision[] default null,
+  p_max_color_distance double precision default null,
+  p_required_tags text[] default '{}',
+  p_any_tags text[] default '{}',
+  p_exclude_tags text[] default '{}',
+  p_author_id uuid default null,
+  p_min_contrast real default null,
+  p_sort text default 'newest',
+  p_limit int default 50,
+  p_offset int default 0
+)
+returns table (id uuid, rank real, color_distance double precision)
+language sql
+stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  with query as (
+    select
+      lower(unaccent(p_query)) as plain,
+      (
+        select to_tsquery('simple', string_agg(word || ':*', ' & '))
+        from regexp_split_to_table(lower(unaccent(p_query)), '[^[:alnum:]]+') as word
+        where word <> ''
+      ) as terms
+  )
+  select
+    t.id,
+    coalesce(
+      ts_rank(t.search_vector, query.terms) + word_similarity(query.plain, t.search_text),
+      0
+    )::real as rank,
+    color_match.distance as color_distance
+  from public.themes as t
+  cross join query
+  cross join lateral (
+    select min(sqrt(
+      power(t.search_colors[i] - p_color_lab[1], 2) +
+      power(t.search_colors[i + 1] - p_color_lab[2], 2) +
+      power(t.search_colors[i + 2] - p_color_lab[3], 2)
+    )) as distance
+    from generate_series(1, coalesce(array_length(t.search_colors, 1), 0), 3) as i
+    where p_color_lab is not null
+  ) as color_match
+  where t.status = 'approved'
+    and (p_query is null or t.search_vector @@ query.terms or query.plain <% t.search_text)
+    and (p_color_lab is null or color_match.distance <= p_max_color_distance)
+    and (
+      cardinality(p_required_tags) = 0
+      or (
+        select count(distinct tg.slug)
+        from public.theme_tags as tt
+        join public.tags as tg on tg.id = tt.tag_id
+        where tt.theme_id = t.id and tg.slug = any (p_required_tags)
+      ) = cardinality(p_required_tags)
+    )
+    and (
+      cardinality(p_any_tags) = 0
+      or exists (
+        select 1
+        from public.theme_tags as tt
+        join public.tags as tg on tg.id = tt.tag_id
+        where tt.theme_id = t.id and tg.slug = any (p_any_tags)
+      )
+    )
+    and not exists (
+      select 1
+      from public.theme_tags as tt
+      join public.tags as tg on tg.id = tt.tag_id
+      where tt.theme_id = t.id and tg.slug = any (p_exclude_tags)
+    )
+    and (p_author_id is null or t.user_id = p_author_id)
+    and (p_min_contrast is null or t.min_contrast_ratio >= p_min_contrast)
+  order by
+    rank desc,
+    color_distance asc nulls last,
+    case when p_sort = 'popular' then t.download_count end desc nulls last,
+    case when p_sort = 'top_rated' then t.rating_average end desc nulls last,
+    case when p_sort = 'top_rated' then t.rating_count end desc nulls last,
+    case when p_sort = 'most_liked' then t.like_count end desc nulls last,
+    case when p_sort = 'name' then t.name end asc,
+    t.created_at desc
+  limit p_limit
+  offset p_offset;
+$$;
@@ -0,0 +1,39 @@
+-- Duplicate checks look up approved themes whose main colors (themes.search_colors,
+-- CIE Lab with defaults applied) look nearly the same as the submission's,
+-- instead of loading every theme's content. A copy with a few tweaked colors
+-- still matches; runThemeChecks then compares the full color sets.
+create or replace function public.find_similar_themes(
+  p_colors double precision[],
+  p_exclude_theme_id uuid default null,
+  p_max_distance double precision default 8,
+  -- Main colors allowed to differ by more than p_max_distance
+  p_max_differing int default 1,
+  p_limit int default 20
+)
+returns table (id uuid, name text, css_content text)
+language sql
+stable
+set search_path = public
+as $$
+  select t.id, t.name, t.css_content
+  from public.themes as t
+  cross join lateral (
+    select
+      count(*) filter (where distances.distance > p_max_distance) as differing,
+      sum(distances.distance) as total
+    from (
+      select sqrt(
+        power(t.search_colors[i] - p_colors[i], 2) +
+        power(t.search_colors[i + 1] - p_colors[i + 1], 2) +
+        power(t.search_colors[i + 2] - p_colors[i + 2], 2)
+      ) as distance
+      from generate_series(1, coalesce(array_length(p_colors, 1), 0), 3) as i
+    ) as distances
+  ) as color_match
+  where t.status = 'approved'
+    and (p_exclude_theme_id is null or t.id <> p_exclude_theme_id)
+    and array_length(t.search_colors, 1) = array_length(p_colors, 1)
+    and color_match.differing <= p_max_differing
+  order by color_match.total
+  limit p_limit;
+$$;